@@ -0,0 +1,29 @@
+import { citationParts, type CitationStyle } from "@/lib/taxonomy/citations"
+import type { Reference } from "@/lib/taxonomy/references"
+
+interface ReferenceCitationProps {
+  reference: Reference
+  style?: CitationStyle
+}
+
+/** Renders a bibliography entry with its titles in italics and its DOI or URL as a link. */
+export default function ReferenceCitation({ reference, style = "apa" }: ReferenceCitationProps) {
+  return (
+    <p className="text-sm">
+      {citationParts(reference, style).map((part, index) => {
+        if (part.url) {
+          return (
+            <a
+              key={index}
+              href={part.text}
+              className="text-green-400 hover:text-green-300 transition-colors duration-300 underline break-all"
+            >
+              {part.text}
+            </a>
+          )
+        }
+        return part.italic ? <i key={index}>{part.text}</i> : part.text
+      })}
+    </p>
+  )
+}
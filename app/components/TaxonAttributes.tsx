@@ -0,0 +1,78 @@
+import type { ResolvedAttribute, ResolvedAttributes } from "@/lib/taxonomy/inheritance"
+import type { TaxonAttributeValue } from "@/lib/taxonomy/model"
+
+interface TaxonAttributesProps {
+  resolved: ResolvedAttributes
+}
+
+const formatKey = (key: string) => {
+  const words = key.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const formatValue = (value: TaxonAttributeValue) => {
+  if (Array.isArray(value)) return value.join(", ")
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  return String(value)
+}
+
+function AttributeRow({ attribute }: { attribute: ResolvedAttribute }) {
+  return (
+    <li className="py-1">
+      <span className="font-medium">{formatKey(attribute.key)}:</span> {formatValue(attribute.value)}
+      {attribute.inherited && (
+        <span className="ml-2 text-xs text-white/70">from {attribute.sourceName}</span>
+      )}
+      {attribute.overridden.map((previous) => (
+        <div key={previous.sourceId} className="ml-4 text-xs text-white/60">
+          <span className="line-through">{formatValue(previous.value)}</span> (from {previous.sourceName}, overridden)
+        </div>
+      ))}
+    </li>
+  )
+}
+
+export default function TaxonAttributes({ resolved }: TaxonAttributesProps) {
+  const attributes = Object.values(resolved.attributes)
+  const own = attributes.filter((attribute) => !attribute.inherited)
+  const inherited = attributes.filter((attribute) => attribute.inherited)
+
+  return (
+    <div className="mt-2 grid gap-3 text-sm text-white bg-black bg-opacity-10 p-3 rounded-md md:grid-cols-2">
+      <div>
+        <h4 className="font-semibold mb-1">Own attributes</h4>
+        {own.length > 0 ? (
+          <ul>
+            {own.map((attribute) => (
+              <AttributeRow key={attribute.key} attribute={attribute} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-white/70">None</p>
+        )}
+      </div>
+      <div>
+        <h4 className="font-semibold mb-1">Inherited attributes</h4>
+        {inherited.length > 0 || resolved.blocked.length > 0 ? (
+          <ul>
+            {inherited.map((attribute) => (
+              <AttributeRow key={attribute.key} attribute={attribute} />
+            ))}
+            {resolved.blocked.map((blocked) => (
+              <li key={`${blocked.key}-${blocked.sourceId}`} className="py-1 text-white/60">
+                <span className="line-through">
+                  {formatKey(blocked.key)}: {formatValue(blocked.value)}
+                </span>{" "}
+                <span className="text-xs">
+                  from {blocked.sourceName}, not inherited by {blocked.blockedByName}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-white/70">None</p>
+        )}
+      </div>
+    </div>
+  )
+}
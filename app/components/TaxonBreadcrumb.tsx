@@ -0,0 +1,94 @@
+"use client"
+
+import { Fragment, type MouseEvent } from "react"
+import { Check, ChevronDown } from "lucide-react"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { LineageCrumb } from "@/lib/taxonomy/paths"
+import TaxonName from "./TaxonName"
+
+interface TaxonBreadcrumbProps {
+  crumbs: LineageCrumb[]
+  /**
+   * Called instead of following a crumb's link on a plain click, e.g. to focus
+   * the taxon in the tree. Modified clicks still open the taxon's page.
+   */
+  onSelect?: (id: string) => void
+  className?: string
+}
+
+/** The lineage of a taxon, each crumb linking to its taxon with a menu of that taxon's siblings. */
+export default function TaxonBreadcrumb({ crumbs, onSelect, className }: TaxonBreadcrumbProps) {
+  const follow = (id: string) => (event: MouseEvent) => {
+    if (!onSelect || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return
+    event.preventDefault()
+    onSelect(id)
+  }
+
+  return (
+    <Breadcrumb className={className}>
+      <BreadcrumbList className="text-white/80">
+        {crumbs.map((crumb, depth) => {
+          const current = depth === crumbs.length - 1
+          return (
+            <Fragment key={crumb.id}>
+              {depth > 0 && <BreadcrumbSeparator />}
+              <BreadcrumbItem className="gap-0.5">
+                {current ? (
+                  <BreadcrumbPage className="font-semibold text-white">
+                    <TaxonName taxon={crumb} />
+                  </BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink href={crumb.href} onClick={follow(crumb.id)} className="hover:text-white hover:underline">
+                    <TaxonName taxon={crumb} />
+                  </BreadcrumbLink>
+                )}
+                {crumb.siblings.length > 1 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      aria-label="Other taxa at this level"
+                      className="rounded-sm p-0.5 hover:bg-white/20 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-white"
+                    >
+                      <ChevronDown className="h-3.5 w-3.5" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+                      <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                        {crumb.siblings.length} taxa in <TaxonName taxon={crumbs[depth - 1]} />
+                      </DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {crumb.siblings.map((sibling) => (
+                        <DropdownMenuItem key={sibling.id} asChild>
+                          <a href={sibling.href} onClick={follow(sibling.id)}>
+                            <Check className={sibling.id === crumb.id ? undefined : "invisible"} />
+                            <span>
+                              <TaxonName taxon={sibling} />
+                            </span>
+                            <span className="ml-auto pl-4 text-xs text-muted-foreground">{sibling.rank}</span>
+                          </a>
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          )
+        })}
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
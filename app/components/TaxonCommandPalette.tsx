@@ -0,0 +1,242 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ChevronsDownUp, ChevronsUpDown, Copy, Download, Eye, Search } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import type { Taxon } from "@/lib/taxonomy/model"
+import { isItalicizedRank } from "@/lib/taxonomy/names"
+import {
+  highlightHit,
+  searchHits,
+  searchTaxa,
+  type SearchHit,
+  type SearchIndex,
+  type SearchResult,
+} from "@/lib/taxonomy/search"
+import { getLineage, indexTaxa } from "@/lib/taxonomy/tree"
+
+/** A classification version the palette can switch to. */
+export interface VersionOption {
+  id: string
+  label: string
+}
+
+/** A download format served from `/export/<format>`. */
+export interface ExportOption {
+  format: string
+  label: string
+}
+
+interface TaxonCommandPaletteProps {
+  root: Taxon
+  /** The taxon the copy and export actions apply to. */
+  current: Taxon
+  /** Versions in the order the home page lists them; the first is the default. */
+  versions: VersionOption[]
+  versionId: string
+  exportFormats: ExportOption[]
+  onJump: (taxon: Taxon) => void
+  onExpandAll: () => void
+  onCollapseAll: () => void
+}
+
+const HIT_LABELS: Record<SearchHit["field"], string> = {
+  name: "Name",
+  synonym: "Synonym",
+  description: "Description",
+  attribute: "Attribute",
+}
+
+function Highlighted({ hit, context }: { hit: SearchHit; context?: number }) {
+  return (
+    <>
+      {highlightHit(hit, context).map((fragment, index) =>
+        fragment.match ? (
+          <mark key={index} className="rounded-sm bg-green-200 text-inherit">
+            {fragment.text}
+          </mark>
+        ) : (
+          fragment.text
+        )
+      )}
+    </>
+  )
+}
+
+function ResultLabel({ result, taxon }: { result: SearchResult; taxon: Taxon }) {
+  const hits = searchHits(taxon, result)
+  const nameHit = hits.find((hit) => hit.field === "name")
+  const otherHit = hits.find((hit) => hit.field !== "name")
+  const name = nameHit ? <Highlighted hit={nameHit} /> : result.name.replace(/_/g, " ")
+  return (
+    <span className="flex min-w-0 flex-col">
+      <span className="truncate">{isItalicizedRank(result.rank) ? <i>{name}</i> : name}</span>
+      {otherHit && (
+        <span className="truncate text-xs text-muted-foreground">
+          {otherHit.label ?? HIT_LABELS[otherHit.field]}: <Highlighted hit={otherHit} context={40} />
+        </span>
+      )}
+    </span>
+  )
+}
+
+/** Ctrl/Cmd+K palette for finding a taxon by name, rank, synonym or description, and for tree and view actions. */
+export default function TaxonCommandPalette({
+  root,
+  current,
+  versions,
+  versionId,
+  exportFormats,
+  onJump,
+  onExpandAll,
+  onCollapseAll,
+}: TaxonCommandPaletteProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [searchIndex, setSearchIndex] = useState<SearchIndex>()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!open || searchIndex) return
+    fetch(`/search-index/${versionId}`)
+      .then((response) => response.json())
+      .then(setSearchIndex, () => toast.error("Could not load the search index"))
+  }, [open, searchIndex, versionId])
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((wasOpen) => !wasOpen)
+      }
+    }
+    document.addEventListener("keydown", onKeyDown)
+    return () => document.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  const index = indexTaxa(root)
+  const results = searchIndex && search.trim() ? searchTaxa(searchIndex, search, { limit: 50 }) : []
+  const showAction = (label: string) => label.toLowerCase().includes(search.trim().toLowerCase())
+  const versionQuery = versionId === versions[0]?.id ? "" : `version=${versionId}`
+
+  const run = (action: () => void) => {
+    setOpen(false)
+    action()
+  }
+
+  const copyLineage = () => {
+    const lineage = getLineage(index, current)
+      .map((taxon) => `${taxon.name.replace(/_/g, " ")} (${taxon.rank})`)
+      .join(" > ")
+    navigator.clipboard.writeText(lineage).then(
+      () => toast.success(`Copied the lineage of ${current.name.replace(/_/g, " ")}`),
+      () => toast.error("Could not copy to the clipboard")
+    )
+  }
+
+  const exportQuery = [versionQuery, current === root ? "" : `taxon=${current.id}`].filter(Boolean).join("&")
+  const currentName = current.name.replace(/_/g, " ")
+
+  const treeActions = [
+    { value: "expand-all", icon: ChevronsUpDown, label: "Expand all", action: onExpandAll },
+    { value: "collapse-all", icon: ChevronsDownUp, label: "Collapse all", action: onCollapseAll },
+    { value: "copy-lineage", icon: Copy, label: `Copy lineage of ${currentName}`, action: copyLineage },
+  ].filter((action) => showAction(action.label))
+  const exportActions = exportFormats.filter(({ label }) => showAction(`Export ${currentName} as ${label}`))
+  const viewActions = [
+    ...versions
+      .filter((version) => version.id !== versionId)
+      .map((version) => ({
+        value: `switch-${version.id}`,
+        label: `Switch to ${version.label}`,
+        href: version.id === versions[0].id ? "/" : `/?version=${version.id}`,
+      })),
+    { value: "compare-versions", label: "Compare versions", href: "/diff" },
+    { value: "bibliography", label: "Bibliography", href: "/references" },
+  ].filter((action) => showAction(action.label))
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="bg-white bg-opacity-20 text-white border-white border-opacity-40 hover:bg-opacity-30"
+      >
+        <Search size={16} className="mr-2" />
+        Jump to taxon
+        <kbd className="ml-3 rounded border border-white/40 px-1 text-xs">Ctrl K</kbd>
+      </Button>
+      {/* Taxa are ranked by the search index; actions are matched on their label. */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder="Search taxa by name, rank, synonym or description…"
+        />
+        <CommandList>
+          <CommandEmpty>{searchIndex || !search.trim() ? "No taxa or actions found." : "Loading the search index…"}</CommandEmpty>
+          {results.length > 0 && (
+            <CommandGroup heading="Taxa">
+              {results.map((result) => {
+                const taxon = index.get(result.id)
+                if (!taxon) return null
+                return (
+                  <CommandItem key={result.id} value={result.id} onSelect={() => run(() => onJump(taxon))}>
+                    <ResultLabel result={result} taxon={taxon} />
+                    <CommandShortcut>{result.rank}</CommandShortcut>
+                  </CommandItem>
+                )
+              })}
+            </CommandGroup>
+          )}
+          {treeActions.length > 0 && (
+            <CommandGroup heading="Tree">
+              {treeActions.map(({ value, icon: Icon, label, action }) => (
+                <CommandItem key={value} value={value} onSelect={() => run(action)}>
+                  <Icon className="mr-2" />
+                  {label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {exportActions.length > 0 && (
+            <CommandGroup heading={`Export ${currentName}`}>
+              {exportActions.map(({ format, label }) => (
+                <CommandItem
+                  key={format}
+                  value={`export-${format}`}
+                  onSelect={() => run(() => window.location.assign(`/export/${format}${exportQuery && `?${exportQuery}`}`))}
+                >
+                  <Download className="mr-2" />
+                  Export as {label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {viewActions.length > 0 && (
+            <CommandGroup heading="Views">
+              {viewActions.map(({ value, label, href }) => (
+                <CommandItem key={value} value={value} onSelect={() => run(() => router.push(href))}>
+                  <Eye className="mr-2" />
+                  {label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
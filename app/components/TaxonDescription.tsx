@@ -0,0 +1,52 @@
+import { inTextCitation } from "@/lib/taxonomy/citations"
+import type { Taxon } from "@/lib/taxonomy/model"
+import type { Reference } from "@/lib/taxonomy/references"
+
+function Citations({ references }: { references: Reference[] }) {
+  return (
+    <>
+      {references.map((reference, index) => (
+        <span key={reference.id}>
+          {index > 0 && "; "}
+          <a href={`/references#${reference.id}`} className="underline hover:text-gray-200">
+            {inTextCitation(reference)}
+          </a>
+        </span>
+      ))}
+    </>
+  )
+}
+
+interface TaxonDescriptionProps {
+  taxon: Taxon
+}
+
+/** The description, with each statement followed by its citations, and the works cited for the taxon as a whole. */
+export default function TaxonDescription({ taxon }: TaxonDescriptionProps) {
+  const references = taxon.references ?? []
+
+  return (
+    <div className="mt-2 text-sm text-white bg-black bg-opacity-10 p-3 rounded-md">
+      {taxon.statements
+        ? taxon.statements.map((statement, index) => (
+            <span key={index}>
+              {index > 0 && " "}
+              {statement.text}
+              {statement.references.length > 0 && (
+                <>
+                  {" ("}
+                  <Citations references={statement.references} />
+                  {")"}
+                </>
+              )}
+            </span>
+          ))
+        : taxon.description}
+      {references.length > 0 && (
+        <p className={taxon.description ? "mt-2 text-xs text-white/80" : "text-xs text-white/80"}>
+          References: <Citations references={references} />
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import type { Taxon } from "@/lib/taxonomy/model"
+import TaxonName from "./TaxonName"
+
+interface TaxonHistoryProps {
+  taxon: Taxon
+}
+
+export default function TaxonHistory({ taxon }: TaxonHistoryProps) {
+  const synonyms = taxon.synonyms ?? []
+  const formerPlacements = taxon.formerPlacements ?? []
+
+  if (synonyms.length === 0 && formerPlacements.length === 0 && !taxon.basionym) {
+    return null
+  }
+
+  return (
+    <div className="mt-2 text-sm text-white bg-black bg-opacity-10 p-3 rounded-md">
+      {(synonyms.length > 0 || taxon.basionym) && (
+        <div>
+          <h4 className="font-semibold">Formerly known as</h4>
+          <ul>
+            {taxon.basionym && (
+              <li>
+                <TaxonName taxon={{ name: taxon.basionym, rank: taxon.rank }} /> <span className="text-xs text-white/70">(basionym)</span>
+              </li>
+            )}
+            {synonyms.map((synonym) => (
+              <li key={synonym.name}>
+                <TaxonName taxon={{ name: synonym.name, rank: synonym.rank ?? taxon.rank }} />{" "}
+                <span className="text-xs text-white/70">
+                  ({synonym.type} synonym{synonym.proParte ? ", pro parte" : ""}
+                  {synonym.note ? `; ${synonym.note}` : ""})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {formerPlacements.length > 0 && (
+        <div className={synonyms.length > 0 || taxon.basionym ? "mt-2" : undefined}>
+          <h4 className="font-semibold">Formerly placed in</h4>
+          <ul>
+            {formerPlacements.map((placement) => (
+              <li key={placement.parentName}>
+                {placement.parentRank ? (
+                  <>
+                    {placement.parentRank} <TaxonName taxon={{ name: placement.parentName, rank: placement.parentRank }} />
+                  </>
+                ) : (
+                  placement.parentName
+                )}
+                {placement.until && <span className="text-xs text-white/70"> (until {placement.until})</span>}
+                {placement.note && <div className="ml-4 text-xs text-white/70">{placement.note}</div>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import type { Taxon } from "@/lib/taxonomy/model"
+import { nameParts } from "@/lib/taxonomy/names"
+
+interface TaxonNameProps {
+  taxon: Pick<Taxon, "name" | "rank">
+}
+
+/** A taxon's name, italicized from genus down, with underscores shown as spaces. */
+export default function TaxonName({ taxon }: TaxonNameProps) {
+  return (
+    <>
+      {nameParts(taxon).map((part, index) =>
+        part.italic ? <i key={index}>{part.text.replace(/_/g, " ")}</i> : part.text.replace(/_/g, " ")
+      )}
+    </>
+  )
+}
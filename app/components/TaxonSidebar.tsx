@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Box,
+  Boxes,
+  ChevronRight,
+  Component,
+  Crown,
+  Dot,
+  Layers,
+  ListTree,
+  Network,
+  Sprout,
+  Users,
+  type LucideIcon,
+} from "lucide-react"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarRail,
+  useSidebar,
+} from "@/components/ui/sidebar"
+import { TaxonRank, type Taxon } from "@/lib/taxonomy/model"
+import { searchNames } from "@/lib/taxonomy/synonyms"
+import { filterTaxa, indexTaxa } from "@/lib/taxonomy/tree"
+import TaxonName from "./TaxonName"
+
+/** One icon per rank; secondary ranks share the icon of the rank above them. */
+const RANK_ICONS: Record<TaxonRank, LucideIcon> = {
+  [TaxonRank.Kingdom]: Crown,
+  [TaxonRank.Subkingdom]: Crown,
+  [TaxonRank.Phylum]: Network,
+  [TaxonRank.Subphylum]: Network,
+  [TaxonRank.Class]: Layers,
+  [TaxonRank.Subclass]: Layers,
+  [TaxonRank.Order]: ListTree,
+  [TaxonRank.Suborder]: ListTree,
+  [TaxonRank.Family]: Users,
+  [TaxonRank.Subfamily]: Users,
+  [TaxonRank.Tribe]: Component,
+  [TaxonRank.Genus]: Boxes,
+  [TaxonRank.Species]: Box,
+  [TaxonRank.Subspecies]: Sprout,
+  [TaxonRank.Variety]: Sprout,
+  [TaxonRank.Form]: Dot,
+}
+
+interface OutlineItemProps {
+  taxon: Taxon
+  isExpanded: (id: string) => boolean
+  focusedId?: string
+  /** Absent while filtering, when every match is shown expanded. */
+  onToggle?: (id: string) => void
+  onSelect: (id: string) => void
+}
+
+function OutlineItem({ taxon, isExpanded, focusedId, onToggle, onSelect }: OutlineItemProps) {
+  const Icon = RANK_ICONS[taxon.rank]
+  const children = Object.values(taxon.children)
+  const expanded = children.length > 0 && isExpanded(taxon.id)
+
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton
+        size="sm"
+        isActive={taxon.id === focusedId}
+        onClick={() => onSelect(taxon.id)}
+        title={`${taxon.name.replace(/_/g, " ")} (${taxon.rank})`}
+        data-sidebar-taxon={taxon.id}
+      >
+        <Icon />
+        <span>
+          <TaxonName taxon={taxon} />
+        </span>
+      </SidebarMenuButton>
+      {children.length > 0 && onToggle && (
+        <SidebarMenuAction onClick={() => onToggle(taxon.id)} aria-label={expanded ? "Collapse" : "Expand"}>
+          <ChevronRight className={expanded ? "rotate-90 transition-transform" : "transition-transform"} />
+        </SidebarMenuAction>
+      )}
+      {expanded && (
+        <SidebarMenuSub className="ml-3 mr-0 pl-1.5 pr-0">
+          {children.map((child) => (
+            <OutlineItem
+              key={child.id}
+              taxon={child}
+              isExpanded={isExpanded}
+              focusedId={focusedId}
+              onToggle={onToggle}
+              onSelect={onSelect}
+            />
+          ))}
+        </SidebarMenuSub>
+      )}
+    </SidebarMenuItem>
+  )
+}
+
+interface TaxonSidebarProps {
+  root: Taxon
+  /** Shared with the main view, so expanding a taxon in either opens it in both. */
+  expandedIds: ReadonlySet<string>
+  focusedId?: string
+  onToggle: (id: string) => void
+  onJump: (taxon: Taxon) => void
+}
+
+/** A compact outline of the classification, with rank icons and its own name filter. */
+export default function TaxonSidebar({ root, expandedIds, focusedId, onToggle, onJump }: TaxonSidebarProps) {
+  const [query, setQuery] = useState("")
+  const { isMobile, setOpenMobile } = useSidebar()
+
+  const filtering = query.trim() !== ""
+  const matchedIds = new Set(searchNames(root, query).map((match) => match.taxon.id))
+  const shown = filtering ? filterTaxa(root, (taxon) => matchedIds.has(taxon.id)) : root
+
+  // Keep the taxon focused in the main view visible in the outline.
+  useEffect(() => {
+    if (focusedId) document.querySelector(`[data-sidebar-taxon="${CSS.escape(focusedId)}"]`)?.scrollIntoView({ block: "nearest" })
+  }, [focusedId])
+
+  const select = (id: string) => {
+    const taxon = indexTaxa(root).get(id)
+    if (!taxon) return
+    onJump(taxon)
+    if (isMobile) setOpenMobile(false)
+  }
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <span className="px-2 text-sm font-semibold">Classification</span>
+        <SidebarInput value={query} onChange={(event) => setQuery(event.target.value)} placeholder="Filter taxa" />
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            {shown ? (
+              <SidebarMenu>
+                <OutlineItem
+                  taxon={shown}
+                  isExpanded={(id) => filtering || expandedIds.has(id)}
+                  focusedId={focusedId}
+                  onToggle={filtering ? undefined : onToggle}
+                  onSelect={select}
+                />
+              </SidebarMenu>
+            ) : (
+              <p className="px-2 text-sm text-muted-foreground">No taxa match.</p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarRail />
+    </Sidebar>
+  )
+}
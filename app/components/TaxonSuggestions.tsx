@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { usePathname } from "next/navigation"
+import { isItalicizedRank } from "@/lib/taxonomy/names"
+import { searchTaxa, type SearchIndex } from "@/lib/taxonomy/search"
+import type { VersionOption } from "./TaxonCommandPalette"
+
+interface TaxonSuggestionsProps {
+  /** Versions in the order the home page lists them; the first is the default. */
+  versions: VersionOption[]
+}
+
+/** Decodes a path segment, keeping it as typed when it is not valid percent-encoding (e.g. "100%"). */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+/** Taxa whose names are close to the last segment of an unknown `/taxon/...` path. */
+export default function TaxonSuggestions({ versions }: TaxonSuggestionsProps) {
+  const pathname = usePathname()
+  const [searchIndex, setSearchIndex] = useState<SearchIndex>()
+
+  const segments = pathname.split("/").slice(2).filter(Boolean).map(decodeSegment)
+  const prefixed = versions.slice(1).find((version) => version.id === segments[0])
+  const versionId = prefixed?.id ?? versions[0]?.id
+  const query = (segments[segments.length - 1] ?? "").replace(/[-_]+/g, " ")
+
+  useEffect(() => {
+    if (!versionId) return
+    fetch(`/search-index/${versionId}`)
+      .then((response) => response.json())
+      .then(setSearchIndex, () => setSearchIndex(undefined))
+  }, [versionId])
+
+  const suggestions = searchIndex && query.trim() ? searchTaxa(searchIndex, query, { limit: 5 }) : []
+  if (suggestions.length === 0) return null
+
+  return (
+    <div className="mt-4">
+      <p>Did you mean:</p>
+      <ul className="mt-1">
+        {suggestions.map((suggestion) => {
+          const name = suggestion.name.replace(/_/g, " ")
+          return (
+            <li key={suggestion.id}>
+              <a
+                href={["/taxon", ...(prefixed ? [prefixed.id] : []), suggestion.id].join("/")}
+                className="text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+              >
+                {isItalicizedRank(suggestion.rank) ? <i>{name}</i> : name}
+              </a>{" "}
+              <span className="text-sm text-white/70">
+                ({suggestion.rank}
+                {suggestion.parentName && ` in ${suggestion.parentName.replace(/_/g, " ")}`})
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
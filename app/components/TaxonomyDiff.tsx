@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronRight, ChevronDown } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { ClassificationDiff, MergedTaxon, TaxonChangeType } from "@/lib/taxonomy/diff"
+
+const CHANGE_STYLES: Record<TaxonChangeType, { label: string; className: string }> = {
+  added: { label: "Added", className: "border-emerald-200 bg-emerald-500/40" },
+  removed: { label: "Removed", className: "border-rose-200 bg-rose-600/40" },
+  moved: { label: "Moved", className: "border-sky-200 bg-sky-500/40" },
+  renamed: { label: "Renamed", className: "border-violet-200 bg-violet-500/40" },
+  reranked: { label: "Re-ranked", className: "border-amber-200 bg-amber-500/40" },
+}
+
+function hasChanges(node: MergedTaxon): boolean {
+  return node.changes.length > 0 || node.children.some(hasChanges)
+}
+
+interface TaxonomyDiffLevelProps {
+  node: MergedTaxon
+}
+
+/** One node of a merged classification tree; branches containing changes start expanded. */
+function TaxonomyDiffLevel({ node }: TaxonomyDiffLevelProps) {
+  const [expanded, setExpanded] = useState(() => node.children.some(hasChanges))
+
+  const taxon = node.kind === "current" ? node.after : node.before
+  const movedAway = node.kind === "movedAway"
+  const gone = node.kind !== "current"
+  const primary = node.changes[0]?.type
+
+  return (
+    <div className="ml-4">
+      <div
+        className={`mb-2 rounded-lg border p-3 shadow-lg ${
+          primary ? CHANGE_STYLES[primary].className : "border-white/20 bg-white/10"
+        } ${movedAway ? "border-dashed opacity-70" : ""}`}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          {node.children.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-white hover:text-gray-200"
+              onClick={() => setExpanded(!expanded)}
+            >
+              {expanded ? <ChevronDown size={20} /> : <ChevronRight size={20} />}
+            </Button>
+          )}
+          <span className={`font-semibold text-white ${gone ? "line-through" : ""}`}>
+            {taxon.name.replace(/_/g, " ")} <span className="text-sm font-normal">({taxon.rank})</span>
+          </span>
+          {node.changes.map((change) => (
+            <Badge
+              key={change.type}
+              title={change.message}
+              className={`text-white ${CHANGE_STYLES[change.type].className}`}
+            >
+              {movedAway ? "Moved away" : CHANGE_STYLES[change.type].label}
+            </Badge>
+          ))}
+        </div>
+        {node.changes.length > 0 && (
+          <ul className="mt-1 ml-2 text-sm text-white/90">
+            {node.changes.map((change) => (
+              <li key={change.type}>{change.message}</li>
+            ))}
+          </ul>
+        )}
+        {expanded && (
+          <div className="mt-2">
+            {node.children.map((child) => (
+              <TaxonomyDiffLevel key={child.key} node={child} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface TaxonomyDiffProps {
+  counts: ClassificationDiff["counts"]
+  root: MergedTaxon
+}
+
+/** Summary counts and the merged tree of a classification diff. */
+export default function TaxonomyDiff({ counts, root }: TaxonomyDiffProps) {
+  const types = Object.keys(CHANGE_STYLES) as TaxonChangeType[]
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-wrap justify-center gap-2">
+        {types.map((type) => (
+          <Badge key={type} className={`px-3 py-1 text-sm text-white ${CHANGE_STYLES[type].className}`}>
+            {counts[type]} {CHANGE_STYLES[type].label.toLowerCase()}
+          </Badge>
+        ))}
+      </div>
+      {types.every((type) => counts[type] === 0) && (
+        <p className="mb-4 text-center text-white">The two versions have the same taxa in the same places.</p>
+      )}
+      <TaxonomyDiffLevel node={root} />
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import { PLACEMENT_LABELS, PlacementStatus, isUncertainPlacement, type Taxon } from "@/lib/taxonomy/model"
+import { lineageCrumbs } from "@/lib/taxonomy/paths"
+import { searchNames } from "@/lib/taxonomy/synonyms"
+import { filterTaxa, flattenTaxa, getLineage, indexTaxa } from "@/lib/taxonomy/tree"
+import TaxonBreadcrumb from "./TaxonBreadcrumb"
+import TaxonCommandPalette, { type ExportOption, type VersionOption } from "./TaxonCommandPalette"
+import TaxonSidebar from "./TaxonSidebar"
+import TaxonomyLevel from "./TaxonomyLevel"
+
+type PlacementFilter = "all" | "uncertain" | PlacementStatus
+
+const UNCERTAIN_STATUSES = Object.values(PlacementStatus).filter((status) => status !== PlacementStatus.Accepted)
+
+/** The part of the tree matching a name query and placement filter, or the whole tree when neither is set. */
+function applyFilters(root: Taxon, query: string, placementFilter: PlacementFilter) {
+  const nameMatches = searchNames(root, query)
+  const matchedIds = new Set(nameMatches.map((match) => match.taxon.id))
+  const filtering = placementFilter !== "all" || query.trim() !== ""
+
+  const matchesPlacement = (taxon: Taxon) =>
+    placementFilter === "all" ||
+    (placementFilter === "uncertain" ? isUncertainPlacement(taxon) : taxon.placement === placementFilter)
+
+  const filtered = filtering
+    ? filterTaxa(root, (taxon) => matchesPlacement(taxon) && (query.trim() === "" || matchedIds.has(taxon.id)))
+    : root
+
+  return { filtered, filtering, synonymMatches: nameMatches.filter((match) => match.synonym) }
+}
+
+interface TaxonomyExplorerProps {
+  root: Taxon
+  versions: VersionOption[]
+  versionId: string
+  exportFormats: ExportOption[]
+  /** Whether the outline sidebar starts open, as remembered in its cookie. */
+  sidebarOpen: boolean
+  /** Shown above the tree controls, beside the sidebar. */
+  children?: ReactNode
+}
+
+export default function TaxonomyExplorer({
+  root,
+  versions,
+  versionId,
+  exportFormats,
+  sidebarOpen,
+  children,
+}: TaxonomyExplorerProps) {
+  const [placementFilter, setPlacementFilter] = useState<PlacementFilter>("all")
+  const [query, setQuery] = useState("")
+  const [expandedIds, setExpandedIds] = useState<ReadonlySet<string>>(new Set())
+  // The taxon last jumped to or expanded: outlined, shown in the breadcrumb, and the subject of the palette's actions.
+  const [focused, setFocused] = useState<Taxon>()
+  // The latest jump, which scrolls its taxon into view; a new object per jump, so repeating one scrolls again.
+  const [jump, setJump] = useState<{ id: string }>()
+
+  const index = indexTaxa(root)
+  // Taxon page links only name the version when it is not the default one.
+  const pageVersionId = versionId === versions[0]?.id ? undefined : versionId
+
+  const { filtered, filtering, synonymMatches } = applyFilters(root, query, placementFilter)
+
+  const updateFilters = (nextQuery: string, nextPlacement: PlacementFilter) => {
+    setQuery(nextQuery)
+    setPlacementFilter(nextPlacement)
+    // Filtered trees open fully so every match is visible; clearing the filters collapses the tree again.
+    const next = applyFilters(root, nextQuery, nextPlacement)
+    setExpandedIds(new Set(next.filtering && next.filtered ? flattenTaxa(next.filtered).map((taxon) => taxon.id) : []))
+  }
+
+  const toggle = (id: string) => {
+    const next = new Set(expandedIds)
+    const expanding = !next.delete(id)
+    if (expanding) next.add(id)
+    setExpandedIds(next)
+    // Collapsing a card leaves the focus where it was.
+    if (expanding) setFocused(index.get(id))
+  }
+
+  const jumpTo = (taxon: Taxon) => {
+    const lineage = getLineage(index, taxon)
+    const visible = filtered && indexTaxa(filtered).has(taxon.id)
+    if (!visible) {
+      setQuery("")
+      setPlacementFilter("all")
+    }
+    const next = new Set(visible ? expandedIds : [])
+    lineage.slice(0, -1).forEach((ancestor) => next.add(ancestor.id))
+    setExpandedIds(next)
+    setFocused(taxon)
+    setJump({ id: taxon.id })
+  }
+
+  useEffect(() => {
+    if (jump) document.getElementById(jump.id)?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }, [jump])
+
+  return (
+    <SidebarProvider defaultOpen={sidebarOpen} className="min-h-0">
+      <TaxonSidebar root={root} expandedIds={expandedIds} focusedId={focused?.id} onToggle={toggle} onJump={jumpTo} />
+      {/* Not SidebarInset, which renders a second <main> inside the layout's. */}
+      <div className="flex min-w-0 flex-1 flex-col">
+        {children}
+        <div className="mb-4 flex flex-wrap items-center justify-end gap-2 text-white">
+          <SidebarTrigger className="mr-auto text-white hover:bg-white/20 hover:text-white" />
+          <TaxonCommandPalette
+            root={root}
+            current={focused ?? root}
+            versions={versions}
+            versionId={versionId}
+            exportFormats={exportFormats}
+            onJump={jumpTo}
+            onExpandAll={() => setExpandedIds(new Set(filtered ? flattenTaxa(filtered).map((taxon) => taxon.id) : []))}
+            onCollapseAll={() => setExpandedIds(new Set())}
+          />
+          <Input
+            value={query}
+            onChange={(event) => updateFilters(event.target.value, placementFilter)}
+            placeholder="Search names and synonyms"
+            className="w-64 bg-white/20 text-white placeholder:text-white/70 border-white/40"
+          />
+          <span className="text-sm">Placement:</span>
+          <Select value={placementFilter} onValueChange={(value) => updateFilters(query, value as PlacementFilter)}>
+            <SelectTrigger className="w-56 bg-white/20 text-white border-white/40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All taxa</SelectItem>
+              <SelectItem value="uncertain">Any uncertain placement</SelectItem>
+              {UNCERTAIN_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {PLACEMENT_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {synonymMatches.length > 0 && (
+          <div className="mb-4 text-sm text-white">
+            {synonymMatches.map((match) => (
+              <p key={match.taxon.id}>
+                <i>{match.matchedName}</i> is a {match.synonym?.proParte ? "pro parte " : ""}synonym of{" "}
+                <i>{match.taxon.name}</i>
+              </p>
+            ))}
+          </div>
+        )}
+        <TaxonBreadcrumb
+          crumbs={lineageCrumbs(getLineage(index, focused ?? root), pageVersionId)}
+          onSelect={(id) => {
+            const taxon = index.get(id)
+            if (taxon) jumpTo(taxon)
+          }}
+          className="sticky top-0 z-10 mb-4 rounded-xl bg-white/10 px-4 py-2 backdrop-blur-lg shadow-lg"
+        />
+        {filtered ? (
+          <TaxonomyLevel
+            data={filtered}
+            level={0}
+            expandedIds={expandedIds}
+            onToggle={toggle}
+            highlightedId={focused?.id}
+            versionId={pageVersionId}
+          />
+        ) : (
+          <p className="text-center text-white">No taxa match these filters.</p>
+        )}
+      </div>
+    </SidebarProvider>
+  )
+}
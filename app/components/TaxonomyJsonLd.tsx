@@ -0,0 +1,13 @@
+import type { Taxon } from "@/lib/taxonomy/model"
+import { serializeJsonLd, toSchemaOrgGraph } from "@/lib/taxonomy/schema-org"
+
+interface TaxonomyJsonLdProps {
+  root: Taxon
+}
+
+/** Emits schema.org `Taxon` JSON-LD for every taxon in the tree, for search engines and crawlers. */
+export default function TaxonomyJsonLd({ root }: TaxonomyJsonLdProps) {
+  return (
+    <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(toSchemaOrgGraph(root)) }} />
+  )
+}
@@ -1,37 +1,65 @@
 "use client"
 
 import { useState } from "react"
-import { ChevronRight, ChevronDown } from "lucide-react"
+import { ChevronRight, ChevronDown, TriangleAlert } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-
-interface Taxon {
-  name: string
-  rank: string
-  description?: string
-  attributes?: Record<string, any>
-  children?: Record<string, Taxon>
-}
+import { resolveAttributes } from "@/lib/taxonomy/inheritance"
+import { PLACEMENT_LABELS, PlacementStatus, isUncertainPlacement, type Taxon } from "@/lib/taxonomy/model"
+import { formatAuthority } from "@/lib/taxonomy/names"
+import { checkNameSuffix } from "@/lib/taxonomy/nomenclature"
+import { taxonHref } from "@/lib/taxonomy/paths"
+import TaxonAttributes from "./TaxonAttributes"
+import TaxonDescription from "./TaxonDescription"
+import TaxonHistory from "./TaxonHistory"
+import TaxonName from "./TaxonName"
 
 interface TaxonomyLevelProps {
   data: Taxon
   level: number
+  /** Ancestors of `data`, root first, used to resolve inherited attributes. */
+  ancestors?: Taxon[]
+  /** Ids of the taxa whose children are shown; owned by the explorer so the whole tree can be expanded at once. */
+  expandedIds: ReadonlySet<string>
+  onToggle: (id: string) => void
+  /** Taxon to outline, e.g. the one last jumped to from the command palette. */
+  highlightedId?: string
+  /** Id of the classification version shown, when it is not the default; used in links to taxon pages. */
+  versionId?: string
 }
 
-export default function TaxonomyLevel({ data, level }: TaxonomyLevelProps) {
-  const [expanded, setExpanded] = useState(false)
+export default function TaxonomyLevel({
+  data,
+  level,
+  ancestors = [],
+  expandedIds,
+  onToggle,
+  highlightedId,
+  versionId,
+}: TaxonomyLevelProps) {
+  const expanded = expandedIds.has(data.id)
   const [showDescription, setShowDescription] = useState(false)
+  const [showAttributes, setShowAttributes] = useState(false)
+
+  const lineage = [...ancestors, data]
+  const resolved = resolveAttributes(lineage)
+  const hasAttributes = Object.keys(resolved.attributes).length > 0 || resolved.blocked.length > 0
+  const suffixIssue = checkNameSuffix(data)
+  const authority = formatAuthority(data.authorship)
+  const hasDescription = Boolean(data.description) || (data.references ?? []).length > 0
 
   const getRandomColor = () => {
     const hue = Math.floor(Math.random() * 360)
     return `hsl(${hue}, 70%, 80%)`
   }
 
-  const bgColor = getRandomColor()
+  // Picked once per node, so expanding one level does not recolor the rest of the tree.
+  const [bgColor] = useState(getRandomColor)
 
   return (
-    <div className="ml-4">
+    <div id={data.id} className="ml-4">
       <div
-        className="mb-4 rounded-lg overflow-hidden shadow-lg"
+        className={`mb-4 rounded-lg overflow-hidden shadow-lg ${data.id === highlightedId ? "ring-2 ring-white" : ""}`}
         style={{
           background: `linear-gradient(135deg, ${bgColor}55, ${bgColor}22)`,
           backdropFilter: "blur(10px)",
@@ -41,40 +69,90 @@ export default function TaxonomyLevel({ data, level }: TaxonomyLevelProps) {
         <div className="p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center">
-              {data.children && Object.keys(data.children).length > 0 && (
+              {Object.keys(data.children).length > 0 && (
                 <Button
                   variant="ghost"
                   size="sm"
                   className="mr-2 text-white hover:text-gray-200"
-                  onClick={() => setExpanded(!expanded)}
+                  onClick={() => onToggle(data.id)}
                 >
                   {expanded ? <ChevronDown size={20} /> : <ChevronRight size={20} />}
                 </Button>
               )}
               <span className="font-semibold text-white text-lg">
-                {data.name.replace(/_/g, " ")} <span className="text-sm">({data.rank})</span>
+                <a href={taxonHref(lineage, versionId)} className="hover:underline">
+                  <TaxonName taxon={data} />
+                </a>{" "}
+                {authority && <span className="text-sm font-normal text-white/80">{authority} </span>}
+                <span className="text-sm">({data.rank})</span>
               </span>
+              {data.autoDerived && (
+                <Badge
+                  title="Extracted from the parent's description"
+                  className="ml-2 border-white/40 bg-white/20 text-white hover:bg-white/30"
+                >
+                  Auto-derived
+                </Badge>
+              )}
+              {isUncertainPlacement(data) && (
+                <Badge
+                  title="Placement of this taxon is uncertain"
+                  className="ml-2 border-sky-200 bg-sky-400/30 text-white hover:bg-sky-400/40"
+                >
+                  <span className={data.placement === PlacementStatus.IncertaeSedis ? "italic" : undefined}>
+                    {PLACEMENT_LABELS[data.placement]}
+                  </span>
+                </Badge>
+              )}
+              {suffixIssue && (
+                <Badge
+                  title={suffixIssue.message}
+                  className="ml-2 gap-1 border-amber-200 bg-amber-400/30 text-white hover:bg-amber-400/40"
+                >
+                  <TriangleAlert size={12} />
+                  Expected -{suffixIssue.expectedSuffix}
+                </Badge>
+              )}
             </div>
-            {data.description && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setShowDescription(!showDescription)}
-                className="bg-white bg-opacity-20 text-white border-white border-opacity-40 hover:bg-opacity-30"
-              >
-                {showDescription ? "Hide" : "Show"} Description
-              </Button>
-            )}
-          </div>
-          {showDescription && data.description && (
-            <div className="mt-2 text-sm text-white bg-black bg-opacity-10 p-3 rounded-md">
-              {data.description}
+            <div className="flex items-center gap-2">
+              {hasAttributes && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowAttributes(!showAttributes)}
+                  className="bg-white bg-opacity-20 text-white border-white border-opacity-40 hover:bg-opacity-30"
+                >
+                  {showAttributes ? "Hide" : "Show"} Attributes
+                </Button>
+              )}
+              {hasDescription && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowDescription(!showDescription)}
+                  className="bg-white bg-opacity-20 text-white border-white border-opacity-40 hover:bg-opacity-30"
+                >
+                  {showDescription ? "Hide" : "Show"} Description
+                </Button>
+              )}
             </div>
-          )}
-          {expanded && data.children && (
+          </div>
+          {showDescription && hasDescription && <TaxonDescription taxon={data} />}
+          {showAttributes && <TaxonAttributes resolved={resolved} />}
+          <TaxonHistory taxon={data} />
+          {expanded && (
             <div className="mt-2">
               {Object.entries(data.children).map(([childKey, childTaxon]) => (
-                <TaxonomyLevel key={childKey} data={childTaxon} level={level + 1} />
+                <TaxonomyLevel
+                  key={childKey}
+                  data={childTaxon}
+                  level={level + 1}
+                  ancestors={lineage}
+                  expandedIds={expandedIds}
+                  onToggle={onToggle}
+                  highlightedId={highlightedId}
+                  versionId={versionId}
+                />
               ))}
             </div>
           )}
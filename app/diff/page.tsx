@@ -0,0 +1,54 @@
+import type { Metadata } from "next"
+import { fungiClassifications, getClassification } from "@/data/fungi-taxonomy"
+import type { ClassificationVersion } from "@/lib/taxonomy/dataset"
+import { diffClassifications, mergeClassifications } from "@/lib/taxonomy/diff"
+import TaxonomyDiff from "../components/TaxonomyDiff"
+
+export const metadata: Metadata = {
+  title: "Compare classifications · Fungi Taxonomy",
+}
+
+interface DiffPageProps {
+  searchParams: { from?: string; to?: string }
+}
+
+export default function DiffPage({ searchParams }: DiffPageProps) {
+  const from =
+    (searchParams.from && getClassification(searchParams.from)) || fungiClassifications[fungiClassifications.length - 1]
+  const to = (searchParams.to && getClassification(searchParams.to)) || fungiClassifications[0]
+  const diff = diffClassifications(from.root, to.root)
+  const merged = mergeClassifications(from.root, to.root, diff)
+
+  const versionLinks = (selected: ClassificationVersion, href: (version: ClassificationVersion) => string) =>
+    fungiClassifications.map((version, index) => (
+      <span key={version.id}>
+        {index > 0 && " · "}
+        {version === selected ? (
+          <span className="font-semibold">{version.label}</span>
+        ) : (
+          <a
+            href={href(version)}
+            className="text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+          >
+            {version.label}
+          </a>
+        )}
+      </span>
+    ))
+
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-4xl font-bold mb-6 text-white text-center">Compare classifications</h1>
+      <div className="text-center text-white mb-6 text-sm">
+        <p>From: {versionLinks(from, (version) => `/diff?from=${version.id}&to=${to.id}`)}</p>
+        <p className="mt-1">To: {versionLinks(to, (version) => `/diff?from=${from.id}&to=${version.id}`)}</p>
+        <p className="mt-2">
+          <a href="/" className="text-green-400 hover:text-green-300 transition-colors duration-300 underline">
+            Back to the taxonomy
+          </a>
+        </p>
+      </div>
+      <TaxonomyDiff key={`${from.id}:${to.id}`} counts={diff.counts} root={merged} />
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { fungiClassifications, getClassification } from "@/data/fungi-taxonomy"
+import { EXPORTERS, isExportFormat } from "@/lib/taxonomy/exporters"
+import { indexTaxa } from "@/lib/taxonomy/tree"
+
+export function GET(request: Request, { params }: { params: { format: string } }) {
+  if (!isExportFormat(params.format)) {
+    return new Response(`Unknown export format "${params.format}".`, { status: 404 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const versionId = searchParams.get("version")
+  const version = versionId ? getClassification(versionId) : fungiClassifications[0]
+  if (!version) {
+    return new Response(`Unknown classification version "${versionId}".`, { status: 404 })
+  }
+
+  const taxonId = searchParams.get("taxon")
+  const root = taxonId ? indexTaxa(version.root).get(taxonId) : version.root
+  if (!root) {
+    return new Response(`Unknown taxon "${taxonId}".`, { status: 404 })
+  }
+
+  const exporter = EXPORTERS[params.format]
+  const slug = root.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+  const filename = `${versionId ? `${slug}-${version.id}` : slug}.${exporter.extension}`
+  return new Response(exporter.render(root, version, searchParams), {
+    headers: {
+      "Content-Type": exporter.contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  })
+}
@@ -1,28 +1,87 @@
-import { fungiTaxonomy } from "../data/fungi-taxonomy"
-import TaxonomyLevel from "./components/TaxonomyLevel"
+import { cookies } from "next/headers"
+import { fungiClassifications, getClassification } from "../data/fungi-taxonomy"
+import { EXPORTERS } from "@/lib/taxonomy/exporters"
+import ReferenceCitation from "./components/ReferenceCitation"
+import TaxonomyExplorer from "./components/TaxonomyExplorer"
+import TaxonomyJsonLd from "./components/TaxonomyJsonLd"
+
+interface HomeProps {
+  searchParams: { version?: string }
+}
+
+export default function Home({ searchParams }: HomeProps) {
+  const version = (searchParams.version && getClassification(searchParams.version)) || fungiClassifications[0]
+  const versionQuery = version === fungiClassifications[0] ? "" : `?version=${version.id}`
+  // Set by the sidebar itself (see components/ui/sidebar.tsx) whenever it is opened or closed.
+  const sidebarOpen = cookies().get("sidebar:state")?.value !== "false"
 
-export default function Home() {
   return (
     <div className="container mx-auto p-4">
-      <h1 className="text-4xl font-bold mb-6 text-white text-center">Fungi Taxonomy</h1>
-      <div className="text-center text-white mb-6">
-        <p className="text-lg">Author: Andrei Suslov</p>
-        <p className="text-lg">References:</p>
-        <div className="mt-2 p-4 rounded-xl bg-white/10 backdrop-blur-lg shadow-lg">
-          <p className="text-sm">
-            Ahmadjian, V., Moore, D., & Alexopoulos, C. J. (2025, January 9). <i>Fungus</i>. Encyclopedia Britannica. 
-            <a 
-              href="https://www.britannica.com/science/fungus" 
-              className="text-green-400 hover:text-green-300 transition-colors duration-300 underline"
-            >
-              {" "}https://www.britannica.com/science/fungus
-            </a>. Accessed February 4, 2025.
+      <TaxonomyJsonLd root={version.root} />
+      {/* Render the root taxon node. TaxonomyExplorer filters the tree and outlines it in the sidebar, and TaxonomyLevel recursively renders its children. */}
+      <TaxonomyExplorer
+        key={version.id}
+        root={version.root}
+        versions={fungiClassifications.map(({ id, label }) => ({ id, label }))}
+        versionId={version.id}
+        exportFormats={Object.entries(EXPORTERS).map(([format, exporter]) => ({ format, label: exporter.label }))}
+        sidebarOpen={sidebarOpen}
+      >
+        <h1 className="text-4xl font-bold mb-6 text-white text-center">Fungi Taxonomy</h1>
+        <div className="text-center text-white mb-6">
+          <p className="text-lg">Author: Andrei Suslov</p>
+          <p className="mt-2 text-sm">
+            Classification:{" "}
+            {fungiClassifications.map((candidate, index) => (
+              <span key={candidate.id}>
+                {index > 0 && " · "}
+                {candidate === version ? (
+                  <span className="font-semibold">{candidate.label}</span>
+                ) : (
+                  <a
+                    href={index === 0 ? "/" : `/?version=${candidate.id}`}
+                    className="text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+                  >
+                    {candidate.label}
+                  </a>
+                )}
+              </span>
+            ))}
+            {" · "}
+            <a href="/diff" className="text-green-400 hover:text-green-300 transition-colors duration-300 underline">
+              Compare versions
+            </a>
+          </p>
+          <p className="text-lg mt-2">References:</p>
+          <div className="mt-2 p-4 rounded-xl bg-white/10 backdrop-blur-lg shadow-lg">
+            {version.metadata.sources.map((reference) => (
+              <ReferenceCitation key={reference.id} reference={reference} />
+            ))}
+            <p className="mt-2 text-sm">
+              <a
+                href={`/references?version=${version.id}`}
+                className="text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+              >
+                Works cited in this classification
+              </a>
+            </p>
+          </div>
+          <p className="mt-4 text-sm">
+            Download:{" "}
+            {Object.entries(EXPORTERS).map(([format, exporter], index) => (
+              <span key={format}>
+                {index > 0 && " · "}
+                <a
+                  href={`/export/${format}${versionQuery}`}
+                  className="text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+                >
+                  {exporter.label}
+                </a>
+              </span>
+            ))}
           </p>
         </div>
-      </div>
-      {/* Render the root taxon node. The TaxonomyLevel component will display the root and recursively render its children. */}
-      <TaxonomyLevel data={fungiTaxonomy} level={0} />
+      </TaxonomyExplorer>
     </div>
   )
 }
-
@@ -0,0 +1,121 @@
+import type { Metadata } from "next"
+import { fungiClassifications, fungiReferences, getClassification } from "@/data/fungi-taxonomy"
+import { CITATION_STYLES, formatCitation, type CitationStyle } from "@/lib/taxonomy/citations"
+import type { ClassificationVersion } from "@/lib/taxonomy/dataset"
+import { collectReferences } from "@/lib/taxonomy/references"
+import ReferenceCitation from "../components/ReferenceCitation"
+
+export const metadata: Metadata = {
+  title: "Bibliography · Fungi Taxonomy",
+}
+
+interface ReferencesPageProps {
+  searchParams: { style?: string; version?: string }
+}
+
+const linkClassName = "text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+
+export default function ReferencesPage({ searchParams }: ReferencesPageProps) {
+  const style: CitationStyle = searchParams.style === "mla" ? "mla" : "apa"
+  // With a version, only the works that classification cites are listed.
+  const selected = searchParams.version ? getClassification(searchParams.version) : undefined
+
+  // For each version, the taxa citing each work; a version's sources are cited by the classification as a whole.
+  const citations = fungiClassifications.map((version) => ({
+    version,
+    taxaByReference: new Map(collectReferences(version.root).map((entry) => [entry.reference.id, entry.taxa])),
+  }))
+  const citedBy = (version: ClassificationVersion, id: string) =>
+    version.metadata.sources.some((source) => source.id === id) ||
+    Boolean(citations.find((entry) => entry.version === version)?.taxaByReference.has(id))
+
+  const references = fungiReferences
+    .filter((reference) => !selected || citedBy(selected, reference.id))
+    .sort((a, b) => formatCitation(a).localeCompare(formatCitation(b)))
+  const pageHref = (nextStyle: CitationStyle, version?: ClassificationVersion) => {
+    const query = [...(nextStyle === "apa" ? [] : [`style=${nextStyle}`]), ...(version ? [`version=${version.id}`] : [])]
+    return `/references${query.length > 0 ? `?${query.join("&")}` : ""}`
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-4xl font-bold mb-6 text-white text-center">Bibliography</h1>
+      <div className="text-center text-white mb-6 text-sm">
+        <p>
+          Style:{" "}
+          {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((candidate, index) => (
+            <span key={candidate}>
+              {index > 0 && " · "}
+              {candidate === style ? (
+                <span className="font-semibold">{CITATION_STYLES[candidate]}</span>
+              ) : (
+                <a href={pageHref(candidate, selected)} className={linkClassName}>
+                  {CITATION_STYLES[candidate]}
+                </a>
+              )}
+            </span>
+          ))}
+        </p>
+        <p className="mt-1">
+          {selected ? (
+            <>
+              Works cited in {selected.label} ·{" "}
+              <a href={pageHref(style)} className={linkClassName}>
+                All works
+              </a>
+            </>
+          ) : (
+            "All works"
+          )}
+        </p>
+        {fungiClassifications.map((version, index) => (
+          <p key={version.id} className="mt-1">
+            {version.label}:{" "}
+            <a href={`/export/bibtex${index === 0 ? "" : `?version=${version.id}`}`} className={linkClassName}>
+              BibTeX
+            </a>
+            {" · "}
+            <a href={`/export/ris${index === 0 ? "" : `?version=${version.id}`}`} className={linkClassName}>
+              RIS
+            </a>
+          </p>
+        ))}
+        <p className="mt-2">
+          <a
+            href={selected && selected !== fungiClassifications[0] ? `/?version=${selected.id}` : "/"}
+            className={linkClassName}
+          >
+            Back to the taxonomy
+          </a>
+        </p>
+      </div>
+      <ol className="space-y-4">
+        {references.map((reference) => (
+          <li
+            key={reference.id}
+            id={reference.id}
+            className="p-4 rounded-xl bg-white/10 backdrop-blur-lg shadow-lg text-white scroll-mt-4 target:ring-2 target:ring-green-400"
+          >
+            <ReferenceCitation reference={reference} style={style} />
+            <ul className="mt-2 text-xs text-white/80">
+              {citations.map(({ version, taxaByReference }) => {
+                const source = version.metadata.sources.some((other) => other.id === reference.id)
+                const taxa = taxaByReference.get(reference.id) ?? []
+                if (!source && taxa.length === 0) return null
+                return (
+                  <li key={version.id}>
+                    {version.label}:{" "}
+                    {[
+                      ...(source ? ["source of the classification"] : []),
+                      ...(taxa.length > 0 ? [`cited for ${taxa.map((taxon) => taxon.name).join(", ")}`] : []),
+                    ].join("; ")}
+                  </li>
+                )
+              })}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
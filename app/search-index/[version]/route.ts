@@ -0,0 +1,18 @@
+import { fungiClassifications, getClassification } from "@/data/fungi-taxonomy"
+import { buildSearchIndex } from "@/lib/taxonomy/search"
+
+// Built once per version by `next build`, so the client downloads a ready index instead of the raw tree.
+export const dynamic = "force-static"
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return fungiClassifications.map((version) => ({ version: version.id }))
+}
+
+export function GET(_request: Request, { params }: { params: { version: string } }) {
+  const version = getClassification(params.version)
+  if (!version) {
+    return new Response(`Unknown classification version "${params.version}".`, { status: 404 })
+  }
+  return Response.json(buildSearchIndex(version.root))
+}
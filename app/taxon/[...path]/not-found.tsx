@@ -0,0 +1,17 @@
+import { fungiClassifications } from "@/data/fungi-taxonomy"
+import TaxonSuggestions from "../../components/TaxonSuggestions"
+
+export default function TaxonNotFound() {
+  return (
+    <div className="container mx-auto p-4 text-white">
+      <h1 className="text-4xl font-bold mb-4">Taxon not found</h1>
+      <p>No taxon in the classification has this path.</p>
+      <TaxonSuggestions versions={fungiClassifications.map(({ id, label }) => ({ id, label }))} />
+      <p className="mt-6">
+        <a href="/" className="text-green-400 hover:text-green-300 transition-colors duration-300 underline">
+          Back to the taxonomy
+        </a>
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import type { Metadata } from "next"
+import { notFound, redirect } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { fungiClassifications } from "@/data/fungi-taxonomy"
+import type { ClassificationVersion } from "@/lib/taxonomy/dataset"
+import { EXPORTERS } from "@/lib/taxonomy/exporters"
+import { IDENTIFIER_SOURCES } from "@/lib/taxonomy/identifiers"
+import { resolveAttributes } from "@/lib/taxonomy/inheritance"
+import { PLACEMENT_LABELS, PlacementStatus, isUncertainPlacement, type IdentifierSource } from "@/lib/taxonomy/model"
+import { formatAuthority } from "@/lib/taxonomy/names"
+import { findTaxonByPath, lineageCrumbs, taxonHref } from "@/lib/taxonomy/paths"
+import { serializeJsonLd, toSchemaOrgTaxon } from "@/lib/taxonomy/schema-org"
+import { resolveName } from "@/lib/taxonomy/synonyms"
+import { flattenTaxa, getLineage, indexTaxa } from "@/lib/taxonomy/tree"
+import TaxonAttributes from "../../components/TaxonAttributes"
+import TaxonBreadcrumb from "../../components/TaxonBreadcrumb"
+import TaxonDescription from "../../components/TaxonDescription"
+import TaxonHistory from "../../components/TaxonHistory"
+import TaxonName from "../../components/TaxonName"
+
+interface TaxonPageProps {
+  params: { path: string[] }
+}
+
+const linkClassName = "text-green-400 hover:text-green-300 transition-colors duration-300 underline"
+
+/**
+ * The version a path belongs to (a leading version id, or the default version) and the rest of the path.
+ * The default version's id is accepted as a prefix too, as SKOS concept IRIs use it; its canonical paths omit it.
+ */
+function splitVersion(path: string[]): { version: ClassificationVersion; versionId?: string; slugs: string[] } {
+  const prefixed = fungiClassifications.find((version) => version.id === path[0])
+  if (!prefixed) return { version: fungiClassifications[0], slugs: path }
+  const versionId = prefixed === fungiClassifications[0] ? undefined : prefixed.id
+  return { version: prefixed, versionId, slugs: path.slice(1) }
+}
+
+function resolveTaxon(path: string[]) {
+  // Route params arrive already decoded.
+  const { version, versionId, slugs } = splitVersion(path)
+  const index = indexTaxa(version.root)
+  // A single taxon id (e.g. /taxon/order-glomerales) is accepted and redirected to the lineage path.
+  const byId = slugs.length === 1 ? index.get(slugs[0]) : undefined
+  const taxon = byId ?? findTaxonByPath(version.root, slugs)
+  if (!taxon) return undefined
+  const lineage = getLineage(index, taxon)
+  return { version, versionId, index, taxon, lineage, href: taxonHref(lineage, versionId), byId: Boolean(byId) }
+}
+
+export function generateStaticParams() {
+  return fungiClassifications.flatMap((version, position) => {
+    const index = indexTaxa(version.root)
+    const versionId = position === 0 ? undefined : version.id
+    return flattenTaxa(version.root).map((taxon) => ({
+      path: taxonHref(getLineage(index, taxon), versionId).split("/").slice(2),
+    }))
+  })
+}
+
+export function generateMetadata({ params }: TaxonPageProps): Metadata {
+  const resolved = resolveTaxon(params.path)
+  if (!resolved) return { title: "Taxon not found · Fungi Taxonomy" }
+  const { taxon, version, href } = resolved
+  const name = taxon.name.replace(/_/g, " ")
+  return {
+    title: `${name} (${taxon.rank}) · Fungi Taxonomy`,
+    description: taxon.description ?? `${taxon.rank} ${name} in the ${version.label} classification of the Fungi.`,
+    alternates: { canonical: href },
+  }
+}
+
+export default function TaxonPage({ params }: TaxonPageProps) {
+  const resolved = resolveTaxon(params.path)
+  if (!resolved) notFound()
+  if (resolved.byId) redirect(resolved.href)
+
+  const { version, versionId, index, taxon, lineage } = resolved
+  const parent = lineage[lineage.length - 2]
+  const children = Object.values(taxon.children)
+  const authority = formatAuthority(taxon.authorship)
+  const homeHref = versionId ? `/?version=${versionId}` : "/"
+  const hrefOf = (other: typeof taxon) => taxonHref(getLineage(index, other), versionId)
+  const identifiers = Object.entries(taxon.identifiers ?? {}) as [IdentifierSource, string][]
+  const exportQuery = [...(versionId ? [`version=${versionId}`] : []), `taxon=${taxon.id}`].join("&")
+
+  // The same name in the other classification versions, or the taxon there that lists it as a synonym.
+  const elsewhere = fungiClassifications.flatMap((other, position) => {
+    if (other === version) return []
+    const [match] = resolveName(other.root, taxon.name)
+    if (!match) return []
+    const href = taxonHref(getLineage(indexTaxa(other.root), match.taxon), position === 0 ? undefined : other.id)
+    return [{ version: other, taxon: match.taxon, href, viaSynonym: Boolean(match.synonym) }]
+  })
+
+  return (
+    <div className="container mx-auto p-4 text-white">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd({
+            "@context": "https://schema.org",
+            ...toSchemaOrgTaxon(taxon, parent, { iri: (other) => `${version.metadata.homepage}${hrefOf(other)}` }),
+          }),
+        }}
+      />
+      <p className="mb-4 text-sm">
+        <a href={homeHref} className={linkClassName}>
+          Fungi Taxonomy
+        </a>{" "}
+        · {version.label}
+      </p>
+      <TaxonBreadcrumb crumbs={lineageCrumbs(lineage, versionId)} className="mb-2" />
+      <h1 className="text-4xl font-bold mb-2">
+        <TaxonName taxon={taxon} />
+      </h1>
+      <p className="mb-6 flex flex-wrap items-center gap-2">
+        <span>{taxon.rank}</span>
+        {authority && <span className="text-white/80">{authority}</span>}
+        {isUncertainPlacement(taxon) && (
+          <Badge className="border-sky-200 bg-sky-400/30 text-white hover:bg-sky-400/40">
+            <span className={taxon.placement === PlacementStatus.IncertaeSedis ? "italic" : undefined}>
+              {PLACEMENT_LABELS[taxon.placement]}
+            </span>
+          </Badge>
+        )}
+      </p>
+
+      <div className="p-4 rounded-xl bg-white/10 backdrop-blur-lg shadow-lg">
+        {(taxon.description || (taxon.references ?? []).length > 0) && <TaxonDescription taxon={taxon} />}
+        <TaxonAttributes resolved={resolveAttributes(lineage)} />
+        <TaxonHistory taxon={taxon} />
+        {children.length > 0 && (
+          <div className="mt-2 text-sm bg-black bg-opacity-10 p-3 rounded-md">
+            <h2 className="font-semibold">Contains</h2>
+            <ul>
+              {children.map((child) => (
+                <li key={child.id}>
+                  <a href={hrefOf(child)} className="hover:underline">
+                    <TaxonName taxon={child} />
+                  </a>{" "}
+                  <span className="text-xs text-white/70">({child.rank})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {(identifiers.length > 0 || elsewhere.length > 0) && (
+          <div className="mt-2 text-sm bg-black bg-opacity-10 p-3 rounded-md">
+            {identifiers.length > 0 && (
+              <p>
+                External records:{" "}
+                {identifiers.map(([source, id], position) => (
+                  <span key={source}>
+                    {position > 0 && " · "}
+                    <a href={IDENTIFIER_SOURCES[source].url(id)} className={linkClassName}>
+                      {IDENTIFIER_SOURCES[source].label}
+                    </a>
+                  </span>
+                ))}
+              </p>
+            )}
+            {elsewhere.map((entry) => (
+              <p key={entry.version.id}>
+                In {entry.version.label}:{" "}
+                <a href={entry.href} className={linkClassName}>
+                  {entry.taxon.rank} <TaxonName taxon={entry.taxon} />
+                </a>
+                {entry.viaSynonym && <span className="text-xs text-white/70"> (as a synonym)</span>}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="mt-4 text-sm">
+        Download this {children.length > 0 ? "subtree" : "taxon"}:{" "}
+        {Object.entries(EXPORTERS).map(([format, exporter], position) => (
+          <span key={format}>
+            {position > 0 && " · "}
+            <a href={`/export/${format}?${exportQuery}`} className={linkClassName}>
+              {exporter.label}
+            </a>
+          </span>
+        ))}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+import type { Reference, ReferenceAuthor } from "./references"
+
+export type CitationStyle = "apa" | "mla"
+
+export const CITATION_STYLES: Record<CitationStyle, string> = {
+  apa: "APA",
+  mla: "MLA",
+}
+
+/** A run of citation text; titles are italicized and URLs can be rendered as links. */
+export interface CitationPart {
+  text: string
+  italic?: boolean
+  url?: boolean
+}
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+]
+
+// MLA abbreviates months longer than four letters.
+const MLA_MONTHS = ["Jan.", "Feb.", "Mar.", "Apr.", "May", "June", "July", "Aug.", "Sept.", "Oct.", "Nov.", "Dec."]
+
+function dateParts(date: string): { year: string; month?: number; day?: number } {
+  const [year, month, day] = date.split("-")
+  return { year, month: month ? Number(month) : undefined, day: day ? Number(day) : undefined }
+}
+
+function longDate(date: string): string {
+  const { year, month, day } = dateParts(date)
+  if (!month) return year
+  return day ? `${MONTHS[month - 1]} ${day}, ${year}` : `${MONTHS[month - 1]} ${year}`
+}
+
+function mlaDate(date: string): string {
+  const { year, month, day } = dateParts(date)
+  return [day, month && MLA_MONTHS[month - 1], year].filter(Boolean).join(" ")
+}
+
+/** Ends a citation element with a period unless it already ends in punctuation. */
+function closed(text: string): string {
+  return /[.?!]$/.test(text) ? text : `${text}.`
+}
+
+function initials(given: string): string {
+  return given
+    .split(/\s+/)
+    .map((name) =>
+      name
+        .split("-")
+        .map((part) => `${part.replace(/\.$/, "").charAt(0)}.`)
+        .join("-")
+    )
+    .join(" ")
+}
+
+/** The DOI resolver link of a work, or its URL when it has no DOI. */
+export function referenceUrl(reference: Reference): string | undefined {
+  return reference.doi ? `https://doi.org/${reference.doi}` : reference.url
+}
+
+function apaAuthors(reference: Reference): string {
+  const names = reference.authors.map((author) => (author.given ? `${author.family}, ${initials(author.given)}` : author.family))
+  if (reference.moreAuthors) return `${names.join(", ")}, et al.`
+  if (names.length === 1) return names[0]
+  return `${names.slice(0, -1).join(", ")}, & ${names[names.length - 1]}`
+}
+
+function mlaAuthors(reference: Reference): string {
+  const [first, second] = reference.authors
+  const inverted = first.given ? `${first.family}, ${first.given}` : first.family
+  if (reference.authors.length === 1 && !reference.moreAuthors) return inverted
+  if (reference.authors.length === 2 && !reference.moreAuthors) {
+    return `${inverted}, and ${second.given ? `${second.given} ${second.family}` : second.family}`
+  }
+  return `${inverted}, et al`
+}
+
+// Web pages are dated to the day; other works to the year.
+function apaDate(reference: Reference): string {
+  if (!reference.issued) return "n.d."
+  const { year, month, day } = dateParts(reference.issued)
+  if (reference.type !== "webpage" || !month) return year
+  return `${year}, ${MONTHS[month - 1]}${day ? ` ${day}` : ""}`
+}
+
+function apaParts(reference: Reference): CitationPart[] {
+  const parts: CitationPart[] = [{ text: `${closed(apaAuthors(reference))} (${apaDate(reference)}). ` }]
+
+  switch (reference.type) {
+    case "article":
+      parts.push({ text: `${closed(reference.title)} ` })
+      if (reference.container) {
+        parts.push({ text: reference.container, italic: true })
+        if (reference.volume) parts.push({ text: ", " }, { text: reference.volume, italic: true })
+        if (reference.issue) parts.push({ text: `(${reference.issue})` })
+        if (reference.pages) parts.push({ text: `, ${reference.pages}` })
+        parts.push({ text: ". " })
+      }
+      break
+    case "book":
+      parts.push({ text: closed(reference.title), italic: true }, { text: " " })
+      if (reference.publisher) parts.push({ text: `${closed(reference.publisher)} ` })
+      break
+    case "chapter":
+      parts.push({ text: `${closed(reference.title)} ` })
+      if (reference.container) {
+        parts.push({ text: "In " }, { text: reference.container, italic: true })
+        parts.push({ text: reference.pages ? ` (pp. ${reference.pages}). ` : ". " })
+      }
+      if (reference.publisher) parts.push({ text: `${closed(reference.publisher)} ` })
+      break
+    case "webpage":
+      parts.push({ text: closed(reference.title), italic: true }, { text: " " })
+      if (reference.container) parts.push({ text: `${closed(reference.container)} ` })
+      break
+  }
+
+  const url = referenceUrl(reference)
+  if (url && reference.accessed && !reference.doi) {
+    parts.push({ text: `Retrieved ${longDate(reference.accessed)}, from ` }, { text: url, url: true })
+  } else if (url) {
+    parts.push({ text: url, url: true })
+  }
+  return trimEnd(parts)
+}
+
+function mlaParts(reference: Reference): CitationPart[] {
+  const parts: CitationPart[] = [{ text: `${closed(mlaAuthors(reference))} ` }]
+  const quotedTitle = { text: `“${closed(reference.title)}” ` }
+  // MLA lists the container's details as a comma-separated run ending in a period.
+  const details: string[] = []
+
+  switch (reference.type) {
+    case "article":
+      parts.push(quotedTitle)
+      if (reference.volume) details.push(`vol. ${reference.volume}`)
+      if (reference.issue) details.push(`no. ${reference.issue}`)
+      if (reference.issued) details.push(reference.issued.slice(0, 4))
+      if (reference.pages) details.push(`pp. ${reference.pages}`)
+      break
+    case "book":
+      parts.push({ text: closed(reference.title), italic: true }, { text: " " })
+      if (reference.publisher) details.push(reference.publisher)
+      if (reference.issued) details.push(reference.issued.slice(0, 4))
+      break
+    case "chapter":
+      parts.push(quotedTitle)
+      if (reference.publisher) details.push(reference.publisher)
+      if (reference.issued) details.push(reference.issued.slice(0, 4))
+      if (reference.pages) details.push(`pp. ${reference.pages}`)
+      break
+    case "webpage":
+      parts.push(quotedTitle)
+      if (reference.issued) details.push(mlaDate(reference.issued))
+      break
+  }
+
+  const url = referenceUrl(reference)
+  if (reference.container && reference.type !== "book") {
+    parts.push({ text: reference.container, italic: true })
+    if (details.length > 0 || url) parts.push({ text: ", " })
+  }
+  if (details.length > 0) parts.push({ text: details.join(", ") })
+  if (url) {
+    if (details.length > 0) parts.push({ text: ", " })
+    parts.push({ text: url, url: true })
+  }
+  parts.push({ text: ". " })
+  if (reference.accessed && !reference.doi) parts.push({ text: `Accessed ${mlaDate(reference.accessed)}.` })
+  return trimEnd(parts)
+}
+
+function trimEnd(parts: CitationPart[]): CitationPart[] {
+  const last = parts[parts.length - 1]
+  return [...parts.slice(0, -1), { ...last, text: last.text.trimEnd() }].filter((part) => part.text !== "")
+}
+
+/** Splits a bibliography entry into runs of plain, italic and URL text. */
+export function citationParts(reference: Reference, style: CitationStyle = "apa"): CitationPart[] {
+  return style === "mla" ? mlaParts(reference) : apaParts(reference)
+}
+
+/** A bibliography entry as plain text. */
+export function formatCitation(reference: Reference, style: CitationStyle = "apa"): string {
+  return citationParts(reference, style)
+    .map((part) => part.text)
+    .join("")
+}
+
+/** The author–date form used in running text, e.g. "Hibbett et al., 2007". */
+export function inTextCitation(reference: Reference): string {
+  const { authors } = reference
+  const names =
+    authors.length === 1 && !reference.moreAuthors
+      ? authors[0].family
+      : authors.length === 2 && !reference.moreAuthors
+        ? `${authors[0].family} & ${authors[1].family}`
+        : `${authors[0].family} et al.`
+  return `${names}, ${reference.issued?.slice(0, 4) ?? "n.d."}`
+}
+
+const BIBTEX_TYPES: Record<Reference["type"], string> = {
+  article: "article",
+  book: "book",
+  chapter: "incollection",
+  webpage: "online",
+}
+
+function escapeBibTeX(text: string): string {
+  return text.replace(/[\\{}&%$#_]/g, (character) => `\\${character}`)
+}
+
+function bibTeXAuthor(author: ReferenceAuthor): string {
+  // Braces keep organization names from being split into first and last names.
+  return author.given ? `${escapeBibTeX(author.family)}, ${escapeBibTeX(author.given)}` : `{${escapeBibTeX(author.family)}}`
+}
+
+/** Renders references as BibTeX entries keyed by reference id, with biblatex's `urldate` for access dates. */
+export function toBibTeX(references: Reference[]): string {
+  return references
+    .map((reference) => {
+      const authors = [...reference.authors.map(bibTeXAuthor), ...(reference.moreAuthors ? ["others"] : [])]
+      const fields: [string, string | undefined][] = [
+        ["author", authors.join(" and ")],
+        // Double braces keep the title's capitalization.
+        ["title", `{${escapeBibTeX(reference.title)}}`],
+        [
+          reference.type === "article" ? "journal" : reference.type === "chapter" ? "booktitle" : "howpublished",
+          reference.type === "book" ? undefined : reference.container && escapeBibTeX(reference.container),
+        ],
+        ["year", reference.issued?.slice(0, 4)],
+        ["volume", reference.volume],
+        ["number", reference.issue],
+        ["pages", reference.pages?.replace(/[–-]/, "--")],
+        ["publisher", reference.publisher && escapeBibTeX(reference.publisher)],
+        ["doi", reference.doi],
+        ["url", reference.url],
+        ["urldate", reference.accessed],
+      ]
+      const body = fields
+        .filter((field): field is [string, string] => field[1] !== undefined)
+        .map(([name, value]) => `  ${name} = {${value}}`)
+      return `@${BIBTEX_TYPES[reference.type]}{${reference.id},\n${body.join(",\n")}\n}\n`
+    })
+    .join("\n")
+}
+
+const RIS_TYPES: Record<Reference["type"], string> = {
+  article: "JOUR",
+  book: "BOOK",
+  chapter: "CHAP",
+  webpage: "ELEC",
+}
+
+/** Renders references as RIS records, importable by Zotero, EndNote and Mendeley. */
+export function toRis(references: Reference[]): string {
+  return references
+    .map((reference) => {
+      const [startPage, endPage] = reference.pages?.split(/[–-]/) ?? []
+      const tags: [string, string | undefined][] = [
+        ["TY", RIS_TYPES[reference.type]],
+        ["ID", reference.id],
+        ...reference.authors.map(
+          (author): [string, string] => ["AU", author.given ? `${author.family}, ${author.given}` : author.family]
+        ),
+        ["PY", reference.issued?.slice(0, 4)],
+        ["DA", reference.issued?.replace(/-/g, "/")],
+        ["TI", reference.title],
+        [reference.type === "article" ? "JO" : "T2", reference.container],
+        ["VL", reference.volume],
+        ["IS", reference.issue],
+        ["SP", startPage],
+        ["EP", endPage],
+        ["PB", reference.publisher],
+        ["DO", reference.doi],
+        ["UR", reference.url],
+        ["Y2", reference.accessed?.replace(/-/g, "/")],
+        ["ER", ""],
+      ]
+      return tags
+        .filter((tag): tag is [string, string] => tag[1] !== undefined)
+        .map(([tag, value]) => `${tag}  - ${value}`)
+        .join("\n")
+    })
+    .join("\n\n")
+    .concat("\n")
+}
@@ -0,0 +1,70 @@
+import fs from "fs"
+import path from "path"
+import { parse as parseYaml } from "yaml"
+import {
+  TaxonomyContentError,
+  buildTaxonomy,
+  type ContentIssue,
+  type ContentSource,
+  type LoadedTaxonomy,
+} from "./content"
+import { buildReferences, type LoadedReferences, type Reference } from "./references"
+
+const CONTENT_EXTENSIONS = new Set([".json", ".yaml", ".yml"])
+
+function listContentFiles(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const fullPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) return listContentFiles(fullPath)
+      return CONTENT_EXTENSIONS.has(path.extname(entry.name)) ? [fullPath] : []
+    })
+}
+
+function readContentSources(dir: string): { sources: ContentSource[]; parseIssues: ContentIssue[] } {
+  const sources: ContentSource[] = []
+  const parseIssues: ContentIssue[] = []
+
+  for (const file of listContentFiles(dir)) {
+    const relative = path.relative(process.cwd(), file)
+    try {
+      const text = fs.readFileSync(file, "utf8")
+      const data = path.extname(file) === ".json" ? JSON.parse(text) : parseYaml(text)
+      sources.push({ file: relative, data })
+    } catch (error) {
+      parseIssues.push({ file: relative, message: `Could not parse file: ${(error as Error).message}` })
+    }
+  }
+
+  return { sources, parseIssues }
+}
+
+/**
+ * Reads every `.json`, `.yaml` and `.yml` file under `dir` (recursively, in
+ * name order) and builds the taxonomy they describe. Files that cannot be
+ * parsed are reported as issues alongside the schema and linking problems
+ * found by {@link buildTaxonomy}. Citations are resolved against `references`.
+ * Server-side only.
+ */
+export function loadTaxonomyDirectory(dir: string, references: readonly Reference[] = []): LoadedTaxonomy {
+  const { sources, parseIssues } = readContentSources(dir)
+
+  try {
+    const loaded = buildTaxonomy(sources, references)
+    return { ...loaded, issues: [...parseIssues, ...loaded.issues] }
+  } catch (error) {
+    if (error instanceof TaxonomyContentError) {
+      throw new TaxonomyContentError(error.message, [...parseIssues, ...error.issues])
+    }
+    throw error
+  }
+}
+
+/** Reads the bibliographic records under `dir`, like {@link loadTaxonomyDirectory}. Server-side only. */
+export function loadReferenceDirectory(dir: string): LoadedReferences {
+  const { sources, parseIssues } = readContentSources(dir)
+  const loaded = buildReferences(sources)
+  return { ...loaded, issues: [...parseIssues, ...loaded.issues] }
+}
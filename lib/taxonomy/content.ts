@@ -0,0 +1,366 @@
+import { z } from "zod"
+import {
+  PlacementStatus,
+  SynonymType,
+  TaxonRank,
+  taxonId,
+  type Authorship,
+  type FormerPlacement,
+  type Synonym,
+  type Taxon,
+  type TaxonAttributes,
+  type TaxonIdentifiers,
+} from "./model"
+import { composeName } from "./names"
+import type { Reference } from "./references"
+
+/**
+ * One taxon as written in a content file. A record is either a top-level entry
+ * that names its parent by id, or is nested in its parent's `children` list.
+ */
+export interface TaxonRecord {
+  /** Defaults to the id derived from rank and name (e.g. "order-chytridiales"). */
+  id?: string
+  /** Genus and above. */
+  name?: string
+  /** Species and below; the full name is composed from the parent's name. */
+  epithet?: string
+  rank: TaxonRank
+  /** Id of the parent taxon. Omitted for the root and for nested records. */
+  parent?: string
+  placement?: PlacementStatus
+  authorship?: Authorship
+  synonyms?: Synonym[]
+  basionym?: string
+  formerPlacements?: FormerPlacement[]
+  identifiers?: TaxonIdentifiers
+  /** Plain text, or a list of statements that each cite reference ids. */
+  description?: string | DescriptionStatementRecord[]
+  /** Ids of the references the taxon as a whole is cited to. */
+  references?: string[]
+  attributes?: TaxonAttributes
+  blockedAttributes?: string[]
+  children?: TaxonRecord[]
+}
+
+export interface DescriptionStatementRecord {
+  text: string
+  references?: string[]
+}
+
+const authorshipSchema = z
+  .object({
+    authors: z.string().min(1),
+    basionymAuthors: z.string().min(1).optional(),
+    year: z.number().int().optional(),
+  })
+  .strict()
+
+const synonymSchema = z
+  .object({
+    name: z.string().min(1),
+    type: z.nativeEnum(SynonymType),
+    rank: z.nativeEnum(TaxonRank).optional(),
+    proParte: z.boolean().optional(),
+    note: z.string().optional(),
+  })
+  .strict()
+
+const formerPlacementSchema = z
+  .object({
+    parentName: z.string().min(1),
+    parentRank: z.nativeEnum(TaxonRank).optional(),
+    until: z.string().optional(),
+    note: z.string().optional(),
+  })
+  .strict()
+
+// YAML reads numeric ids such as `gbif: 5` as numbers.
+const identifierSchema = z.coerce.string().min(1)
+
+const identifiersSchema = z
+  .object({
+    gbif: identifierSchema.optional(),
+    indexFungorum: identifierSchema.optional(),
+    mycoBank: identifierSchema.optional(),
+    wikidata: identifierSchema.optional(),
+  })
+  .strict()
+
+const statementSchema = z
+  .object({
+    text: z.string().min(1),
+    references: z.array(z.string().min(1)).optional(),
+  })
+  .strict()
+
+const attributeValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])
+
+export const taxonRecordSchema: z.ZodType<TaxonRecord> = z.lazy(() =>
+  z
+    .object({
+      id: z.string().min(1).optional(),
+      name: z.string().min(1).optional(),
+      epithet: z.string().min(1).optional(),
+      rank: z.nativeEnum(TaxonRank),
+      parent: z.string().min(1).optional(),
+      placement: z.nativeEnum(PlacementStatus).optional(),
+      authorship: authorshipSchema.optional(),
+      synonyms: z.array(synonymSchema).optional(),
+      basionym: z.string().min(1).optional(),
+      formerPlacements: z.array(formerPlacementSchema).optional(),
+      identifiers: identifiersSchema.optional(),
+      description: z.union([z.string(), z.array(statementSchema).min(1)]).optional(),
+      references: z.array(z.string().min(1)).optional(),
+      attributes: z.record(attributeValueSchema).optional(),
+      blockedAttributes: z.array(z.string()).optional(),
+      children: z.array(taxonRecordSchema).optional(),
+    })
+    .strict()
+    .refine((record) => (record.name === undefined) !== (record.epithet === undefined), {
+      message: "Give exactly one of name (genus and above) or epithet (species and below)",
+    })
+)
+
+/** A content file holds one record (a taxon or a subtree) or a list of them. */
+const taxonListSchema = z.array(taxonRecordSchema)
+
+export interface ContentIssue {
+  /** The file the problem was found in. */
+  file: string
+  message: string
+}
+
+export interface LoadedTaxonomy {
+  root: Taxon
+  /** Every taxon built from the records, in load order. */
+  taxa: Taxon[]
+  issues: ContentIssue[]
+}
+
+export interface ContentSource {
+  file: string
+  /** The parsed file contents, not yet checked against the schema. */
+  data: unknown
+}
+
+/** Thrown when content files cannot produce a tree at all (e.g. no root record). */
+export class TaxonomyContentError extends Error {
+  constructor(
+    message: string,
+    readonly issues: ContentIssue[]
+  ) {
+    super(message)
+    this.name = "TaxonomyContentError"
+  }
+}
+
+interface PendingRecord {
+  record: TaxonRecord
+  file: string
+  /** The enclosing record when nested in a `children` list. */
+  enclosing?: PendingRecord
+  state: "pending" | "placed" | "failed"
+  taxon?: Taxon
+}
+
+function describeRecord(record: TaxonRecord): string {
+  return `${record.rank} "${record.name ?? record.epithet}"`
+}
+
+/**
+ * Checks each source against {@link taxonRecordSchema} and links the records into
+ * a single tree. Records are placed once their parent has been placed, so files
+ * may be given in any order; children keep the order they are listed in.
+ *
+ * Reference ids are resolved against `references`.
+ *
+ * Problems that only affect some records (schema errors, unknown parents,
+ * duplicate ids) are collected in `issues` and the offending records skipped;
+ * citations of unknown references are reported and dropped.
+ * A {@link TaxonomyContentError} is thrown when no single root can be found.
+ */
+export function buildTaxonomy(sources: ContentSource[], references: readonly Reference[] = []): LoadedTaxonomy {
+  const issues: ContentIssue[] = []
+  const referenceIndex = new Map(references.map((reference) => [reference.id, reference]))
+  const pending: PendingRecord[] = []
+
+  const enqueue = (record: TaxonRecord, file: string, enclosing?: PendingRecord) => {
+    const entry: PendingRecord = { record, file, enclosing, state: "pending" }
+    pending.push(entry)
+    for (const child of record.children ?? []) {
+      if (child.parent !== undefined) {
+        issues.push({ file, message: `${describeRecord(child)} is nested under another record and must not set "parent".` })
+        continue
+      }
+      enqueue(child, file, entry)
+    }
+  }
+
+  for (const source of sources) {
+    const parsed = Array.isArray(source.data)
+      ? taxonListSchema.safeParse(source.data)
+      : taxonRecordSchema.safeParse(source.data)
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        issues.push({ file: source.file, message: `${issue.path.join(".") || "(file)"}: ${issue.message}` })
+      }
+      continue
+    }
+    for (const record of Array.isArray(parsed.data) ? parsed.data : [parsed.data]) {
+      enqueue(record, source.file)
+    }
+  }
+
+  const roots = pending.filter((entry) => !entry.enclosing && entry.record.parent === undefined)
+  if (roots.length !== 1) {
+    throw new TaxonomyContentError(
+      roots.length === 0
+        ? "No root record found: exactly one record must omit \"parent\"."
+        : `Found ${roots.length} root records (${roots.map((entry) => describeRecord(entry.record)).join(", ")}); expected exactly one.`,
+      issues
+    )
+  }
+
+  const taxa: Taxon[] = []
+  const byId = new Map<string, Taxon>()
+
+  const fail = (entry: PendingRecord, message: string) => {
+    entry.state = "failed"
+    issues.push({ file: entry.file, message })
+  }
+
+  const place = (entry: PendingRecord, parent?: Taxon) => {
+    const { record } = entry
+    let name = record.name
+    if (name === undefined) {
+      if (!parent) return fail(entry, `${describeRecord(record)} has an epithet but no parent to compose its name from.`)
+      try {
+        name = composeName(record.rank, record.epithet as string, parent)
+      } catch (error) {
+        return fail(entry, (error as Error).message)
+      }
+    }
+
+    const id = record.id ?? taxonId(record.rank, name)
+    if (byId.has(id)) {
+      return fail(entry, `${describeRecord(record)} reuses the id "${id}".`)
+    }
+    if (parent?.children[name]) {
+      return fail(entry, `"${parent.name}" already has a child named "${name}".`)
+    }
+
+    const cite = (ids: string[] = []) =>
+      ids.flatMap((referenceId) => {
+        const reference = referenceIndex.get(referenceId)
+        if (!reference) {
+          issues.push({ file: entry.file, message: `${describeRecord(record)} cites unknown reference "${referenceId}".` })
+        }
+        return reference ? [reference] : []
+      })
+    const statements = Array.isArray(record.description)
+      ? record.description.map((statement) => ({ text: statement.text, references: cite(statement.references) }))
+      : undefined
+    const description = Array.isArray(record.description)
+      ? record.description.map((statement) => statement.text).join(" ")
+      : record.description
+
+    const taxon: Taxon = {
+      id,
+      name,
+      epithet: record.epithet,
+      rank: record.rank,
+      placement: record.placement ?? PlacementStatus.Accepted,
+      authorship: record.authorship,
+      synonyms: record.synonyms,
+      basionym: record.basionym,
+      formerPlacements: record.formerPlacements,
+      identifiers: record.identifiers,
+      description,
+      statements,
+      references: record.references && cite(record.references),
+      attributes: record.attributes ?? {},
+      blockedAttributes: record.blockedAttributes,
+      parentId: parent?.id,
+      children: {},
+    }
+    if (parent) parent.children[name] = taxon
+    entry.state = "placed"
+    entry.taxon = taxon
+    byId.set(id, taxon)
+    taxa.push(taxon)
+  }
+
+  place(roots[0])
+  const root = roots[0].taxon
+  if (!root) {
+    throw new TaxonomyContentError(`The root record ${describeRecord(roots[0].record)} could not be built.`, issues)
+  }
+
+  let remaining = pending.filter((entry) => entry !== roots[0])
+  let progressed = true
+  while (remaining.length > 0 && progressed) {
+    progressed = false
+    const waiting: PendingRecord[] = []
+    for (const entry of remaining) {
+      if (entry.enclosing?.state === "failed") {
+        // Skipped along with the record it is nested in, which was already reported.
+        entry.state = "failed"
+        progressed = true
+        continue
+      }
+      const parent = entry.enclosing ? entry.enclosing.taxon : byId.get(entry.record.parent as string)
+      if (parent) {
+        place(entry, parent)
+        progressed = true
+      } else {
+        waiting.push(entry)
+      }
+    }
+    remaining = waiting
+  }
+
+  for (const entry of remaining) {
+    if (entry.enclosing) continue
+    issues.push({
+      file: entry.file,
+      message: `${describeRecord(entry.record)} names parent "${entry.record.parent}", which is not defined.`,
+    })
+  }
+
+  return { root, taxa, issues }
+}
+
+/**
+ * Converts a taxon and its descendants back into a content record, omitting
+ * fields that hold their default value. The inverse of {@link buildTaxonomy}.
+ */
+export function taxonToRecord(taxon: Taxon, parentId?: string): TaxonRecord {
+  const derivedId = taxonId(taxon.rank, taxon.name)
+  const children = Object.values(taxon.children).map((child) => taxonToRecord(child))
+  const record: TaxonRecord = {
+    id: taxon.id !== derivedId ? taxon.id : undefined,
+    name: taxon.epithet === undefined ? taxon.name : undefined,
+    epithet: taxon.epithet,
+    rank: taxon.rank,
+    parent: parentId,
+    placement: taxon.placement !== PlacementStatus.Accepted ? taxon.placement : undefined,
+    authorship: taxon.authorship,
+    synonyms: taxon.synonyms,
+    basionym: taxon.basionym,
+    formerPlacements: taxon.formerPlacements,
+    identifiers: taxon.identifiers,
+    description: taxon.statements
+      ? taxon.statements.map((statement) =>
+          statement.references.length > 0
+            ? { text: statement.text, references: statement.references.map((reference) => reference.id) }
+            : { text: statement.text }
+        )
+      : taxon.description,
+    references: taxon.references?.map((reference) => reference.id),
+    attributes: Object.keys(taxon.attributes).length > 0 ? taxon.attributes : undefined,
+    blockedAttributes: taxon.blockedAttributes,
+    children: children.length > 0 ? children : undefined,
+  }
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as TaxonRecord
+}
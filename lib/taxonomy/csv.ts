@@ -0,0 +1,59 @@
+export type DelimitedValue = string | number | boolean | undefined
+
+/** Quotes a field when it contains the delimiter, a quote or a line break (RFC 4180). */
+function formatField(value: DelimitedValue, delimiter: string): string {
+  const text = value === undefined ? "" : String(value)
+  if (!text.includes(delimiter) && !/["\r\n]/.test(text)) return text
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+/** Writes rows as delimited text (CSV by default), one line per row, with a trailing newline. */
+export function formatDelimited(rows: DelimitedValue[][], delimiter = ","): string {
+  return rows.map((row) => row.map((value) => formatField(value, delimiter)).join(delimiter) + "\n").join("")
+}
+
+/**
+ * Parses delimited text (CSV by default) into rows of fields. Handles quoted
+ * fields with doubled quotes and embedded line breaks, CRLF line endings and a
+ * leading byte order mark; blank lines are skipped.
+ */
+export function parseDelimited(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  let position = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== "") rows.push(row)
+    row = []
+    field = ""
+  }
+
+  for (; position < text.length; position++) {
+    const character = text[position]
+    if (quoted) {
+      if (character !== '"') {
+        field += character
+      } else if (text[position + 1] === '"') {
+        field += '"'
+        position++
+      } else {
+        quoted = false
+      }
+    } else if (character === '"' && field === "") {
+      quoted = true
+    } else if (character === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (character === "\n" || character === "\r") {
+      if (character === "\r" && text[position + 1] === "\n") position++
+      endRow()
+    } else {
+      field += character
+    }
+  }
+  if (field !== "" || row.length > 0) endRow()
+  return rows
+}
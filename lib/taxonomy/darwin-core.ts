@@ -0,0 +1,206 @@
+import { strToU8, zipSync } from "fflate"
+import { formatCitation, referenceUrl } from "./citations"
+import { formatDelimited, type DelimitedValue } from "./csv"
+import type { DatasetMetadata } from "./dataset"
+import { PlacementStatus, type Synonym, type Taxon } from "./model"
+import { formatAuthority, formatScientificName } from "./names"
+import { referencesOf } from "./references"
+import { flattenTaxa } from "./tree"
+import { escapeXml } from "./xml"
+
+const DWC = "http://rs.tdwg.org/dwc/terms/"
+const DC = "http://purl.org/dc/terms/"
+
+/** One data file in the archive, described by a `<core>` or `<extension>` element in meta.xml. */
+interface ArchiveTable {
+  file: string
+  rowType: string
+  /** Column headers and the term URI each column holds. The first column is the taxon id. */
+  columns: { header: string; term: string }[]
+  rows: DelimitedValue[][]
+}
+
+/** GBIF taxonomic status vocabulary (https://rs.gbif.org/vocabulary/gbif/taxonomic_status.xml). */
+function acceptedStatus(taxon: Taxon): string {
+  return taxon.placement === PlacementStatus.Provisional || taxon.placement === PlacementStatus.Disputed
+    ? "doubtful"
+    : "accepted"
+}
+
+function synonymStatus(synonym: Synonym): string {
+  if (synonym.proParte) return "proparteSynonym"
+  return `${synonym.type}Synonym`
+}
+
+/** Synonyms get their own rows; the id is scoped to the accepted taxon because a pro parte synonym recurs. */
+function synonymId(taxon: Taxon, synonym: Synonym): string {
+  return `${taxon.id}-synonym-${synonym.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`
+}
+
+function taxonTable(root: Taxon, taxa: Taxon[]): ArchiveTable {
+  const rows: DelimitedValue[][] = []
+  for (const taxon of taxa) {
+    rows.push([
+      taxon.id,
+      // The exported root's parent is outside the archive, even when exporting a subtree.
+      taxon.id === root.id ? undefined : taxon.parentId,
+      undefined,
+      formatScientificName(taxon),
+      taxon.rank.toLowerCase(),
+      acceptedStatus(taxon),
+      formatAuthority(taxon.authorship) || undefined,
+    ])
+    for (const synonym of taxon.synonyms ?? []) {
+      rows.push([
+        synonymId(taxon, synonym),
+        undefined,
+        taxon.id,
+        synonym.name,
+        (synonym.rank ?? taxon.rank).toLowerCase(),
+        synonymStatus(synonym),
+        undefined,
+      ])
+    }
+  }
+  return {
+    file: "taxon.csv",
+    rowType: `${DWC}Taxon`,
+    columns: [
+      { header: "taxonID", term: `${DWC}taxonID` },
+      { header: "parentNameUsageID", term: `${DWC}parentNameUsageID` },
+      { header: "acceptedNameUsageID", term: `${DWC}acceptedNameUsageID` },
+      { header: "scientificName", term: `${DWC}scientificName` },
+      { header: "taxonRank", term: `${DWC}taxonRank` },
+      { header: "taxonomicStatus", term: `${DWC}taxonomicStatus` },
+      { header: "scientificNameAuthorship", term: `${DWC}scientificNameAuthorship` },
+    ],
+    rows,
+  }
+}
+
+function descriptionTable(taxa: Taxon[], metadata: DatasetMetadata): ArchiveTable {
+  return {
+    file: "description.csv",
+    rowType: "http://rs.gbif.org/terms/1.0/Description",
+    columns: [
+      { header: "coreid", term: `${DWC}taxonID` },
+      { header: "description", term: `${DC}description` },
+      { header: "type", term: `${DC}type` },
+      { header: "language", term: `${DC}language` },
+    ],
+    rows: taxa
+      .filter((taxon) => taxon.description)
+      .map((taxon) => [taxon.id, taxon.description, "general", metadata.language]),
+  }
+}
+
+function referenceTable(taxa: Taxon[], metadata: DatasetMetadata): ArchiveTable {
+  return {
+    file: "reference.csv",
+    rowType: "http://rs.gbif.org/terms/1.0/Reference",
+    columns: [
+      { header: "coreid", term: `${DWC}taxonID` },
+      { header: "bibliographicCitation", term: `${DC}bibliographicCitation` },
+      { header: "title", term: `${DC}title` },
+      { header: "identifier", term: `${DC}identifier` },
+    ],
+    rows: taxa.flatMap((taxon) =>
+      [...metadata.sources, ...referencesOf(taxon)]
+        .filter((reference, index, cited) => cited.findIndex((other) => other.id === reference.id) === index)
+        .map((reference) => [taxon.id, formatCitation(reference), reference.title, referenceUrl(reference)])
+    ),
+  }
+}
+
+function tableFile(table: ArchiveTable): string {
+  return formatDelimited([table.columns.map((column) => column.header), ...table.rows])
+}
+
+function tableDescriptor(table: ArchiveTable, element: "core" | "extension"): string {
+  const idElement = element === "core" ? "id" : "coreid"
+  const fields = table.columns
+    .map((column, index) => ({ ...column, index }))
+    // An extension's id column only links rows to the core; it is not a field of its own.
+    .filter((column) => element === "core" || column.index > 0)
+    .map((column) => `    <field index="${column.index}" term="${column.term}"/>`)
+  return [
+    `  <${element} encoding="UTF-8" fieldsTerminatedBy="," linesTerminatedBy="\\n" fieldsEnclosedBy="&quot;" ignoreHeaderLines="1" rowType="${table.rowType}">`,
+    `    <files><location>${table.file}</location></files>`,
+    `    <${idElement} index="0"/>`,
+    ...fields,
+    `  </${element}>`,
+  ].join("\n")
+}
+
+function metaXml(core: ArchiveTable, extensions: ArchiveTable[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<archive xmlns="http://rs.tdwg.org/dwc/text/" metadata="eml.xml">',
+    tableDescriptor(core, "core"),
+    ...extensions.map((table) => tableDescriptor(table, "extension")),
+    "</archive>",
+    "",
+  ].join("\n")
+}
+
+function emlXml(metadata: DatasetMetadata, date: string): string {
+  const people = (element: string) =>
+    metadata.creators.map(
+      (person) =>
+        `    <${element}><individualName><givenName>${escapeXml(person.givenName)}</givenName><surName>${escapeXml(person.surname)}</surName></individualName></${element}>`
+    )
+  const packageId = `${metadata.title.toLowerCase().replace(/[^a-z0-9]+/g, "-")}/${date}`
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<eml:eml xmlns:eml="eml://ecoinformatics.org/eml-2.1.1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="eml://ecoinformatics.org/eml-2.1.1 http://rs.gbif.org/schema/eml-gbif-profile/1.1/eml.xsd" packageId="${escapeXml(packageId)}" system="http://gbif.org" scope="system" xml:lang="${metadata.language}">`,
+    "  <dataset>",
+    `    <title xml:lang="${metadata.language}">${escapeXml(metadata.title)}</title>`,
+    ...people("creator"),
+    ...people("metadataProvider"),
+    `    <pubDate>${date}</pubDate>`,
+    `    <language>${metadata.language}</language>`,
+    `    <abstract><para>${escapeXml(metadata.description)}</para></abstract>`,
+    ...people("contact"),
+    "  </dataset>",
+    "  <additionalMetadata><metadata><gbif>",
+    `    <dateStamp>${date}</dateStamp>`,
+    "    <bibliography>",
+    ...metadata.sources.map((source) => `      <citation>${escapeXml(formatCitation(source))}</citation>`),
+    "    </bibliography>",
+    "  </gbif></metadata></additionalMetadata>",
+    "</eml:eml>",
+    "",
+  ].join("\n")
+}
+
+export interface DarwinCoreOptions {
+  /** Publication date written to eml.xml (YYYY-MM-DD). Defaults to today. */
+  date?: string
+}
+
+/**
+ * Lays out a taxon and its descendants as the files of a Darwin Core Archive:
+ * a taxon core (accepted names plus a row per synonym), description and
+ * reference extensions, and the meta.xml and eml.xml descriptors. Every taxon
+ * cites each of the dataset's sources, followed by its own references.
+ */
+export function darwinCoreArchiveFiles(
+  root: Taxon,
+  metadata: DatasetMetadata,
+  options: DarwinCoreOptions = {}
+): Record<string, string> {
+  const taxa = flattenTaxa(root)
+  const core = taxonTable(root, taxa)
+  const extensions = [descriptionTable(taxa, metadata), referenceTable(taxa, metadata)]
+  return {
+    "meta.xml": metaXml(core, extensions),
+    "eml.xml": emlXml(metadata, options.date ?? new Date().toISOString().slice(0, 10)),
+    ...Object.fromEntries([core, ...extensions].map((table) => [table.file, tableFile(table)])),
+  }
+}
+
+/** Builds a zipped Darwin Core Archive; see {@link darwinCoreArchiveFiles} for its contents. */
+export function toDarwinCoreArchive(root: Taxon, metadata: DatasetMetadata, options: DarwinCoreOptions = {}): Uint8Array {
+  const files = darwinCoreArchiveFiles(root, metadata, options)
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])))
+}
@@ -0,0 +1,35 @@
+import type { ContentIssue } from "./content"
+import type { Taxon } from "./model"
+import type { Reference } from "./references"
+
+/** A person credited in dataset metadata. */
+export interface DatasetPerson {
+  givenName: string
+  surname: string
+}
+
+/** Describes a classification as a whole, for archive and catalogue exports. */
+export interface DatasetMetadata {
+  title: string
+  description: string
+  /** Public site URL, without a trailing slash; taxon IRIs are minted under it. */
+  homepage: string
+  creators: DatasetPerson[]
+  /** ISO 639-1 code of the language the names' descriptions are written in. */
+  language: string
+  /** Works every taxon in the classification is based on. */
+  sources: Reference[]
+}
+
+/** One published classification of the group, e.g. "Britannica 2025" or "Hibbett et al. 2007". */
+export interface ClassificationVersion {
+  /** Used in URLs and as the content directory name (e.g. "britannica-2025"). */
+  id: string
+  label: string
+  metadata: DatasetMetadata
+  root: Taxon
+  /** Every taxon loaded from the version's content files, for validation. */
+  frames: readonly Taxon[]
+  /** Records that could not be loaded (schema errors, unknown parents, duplicate ids). */
+  contentIssues: ContentIssue[]
+}
@@ -0,0 +1,238 @@
+import type { Taxon, TaxonRank } from "./model"
+import { flattenTaxa, indexTaxa } from "./tree"
+
+export type TaxonChangeType = "added" | "removed" | "renamed" | "moved" | "reranked"
+
+/** The parts of a taxon a change is reported against. */
+export interface TaxonSnapshot {
+  id: string
+  name: string
+  rank: TaxonRank
+  parentName?: string
+}
+
+export interface TaxonChange {
+  type: TaxonChangeType
+  /** The taxon in the older version; undefined for additions. */
+  before?: TaxonSnapshot
+  /** The taxon in the newer version; undefined for removals. */
+  after?: TaxonSnapshot
+  message: string
+}
+
+/** A taxon found in both versions, possibly renamed, moved or re-ranked. */
+export interface TaxonMatch {
+  before: Taxon
+  after: Taxon
+  /** How the match was made: by identical name, or through a synonym or basionym. */
+  by: "name" | "synonym"
+}
+
+export interface ClassificationDiff {
+  matches: TaxonMatch[]
+  /** One entry per change; a taxon that was both moved and re-ranked appears twice. */
+  changes: TaxonChange[]
+  counts: Record<TaxonChangeType, number>
+}
+
+/**
+ * Names under which a taxon may appear in another version: its basionym and
+ * its synonyms. Pro parte synonyms are left out, as they mark a split rather
+ * than a rename.
+ */
+function aliases(taxon: Taxon): string[] {
+  return [
+    ...(taxon.basionym ? [taxon.basionym] : []),
+    ...(taxon.synonyms ?? []).filter((synonym) => !synonym.proParte).map((synonym) => synonym.name),
+  ]
+}
+
+function snapshot(taxon: Taxon, index: Map<string, Taxon>): TaxonSnapshot {
+  return {
+    id: taxon.id,
+    name: taxon.name,
+    rank: taxon.rank,
+    parentName: taxon.parentId ? index.get(taxon.parentId)?.name : undefined,
+  }
+}
+
+/**
+ * Compares two versions of a classification. Taxa are matched by name first;
+ * the rest are matched when one's synonyms or basionym name the other, which
+ * is reported as a rename. Matched taxa are then checked for a different rank
+ * and for a different parent (after mapping the old parent into the new
+ * version), and unmatched taxa are reported as added or removed. Changes are
+ * listed in the newer version's tree order, removals last.
+ */
+export function diffClassifications(before: Taxon, after: Taxon): ClassificationDiff {
+  const beforeTaxa = flattenTaxa(before)
+  const afterTaxa = flattenTaxa(after)
+  const beforeIndex = indexTaxa(before)
+  const afterIndex = indexTaxa(after)
+
+  const matchByBeforeId = new Map<string, TaxonMatch>()
+  const matchByAfterId = new Map<string, TaxonMatch>()
+  const addMatch = (match: TaxonMatch) => {
+    matchByBeforeId.set(match.before.id, match)
+    matchByAfterId.set(match.after.id, match)
+  }
+
+  const afterByName = new Map<string, Taxon>()
+  for (const taxon of afterTaxa) {
+    if (!afterByName.has(taxon.name)) afterByName.set(taxon.name, taxon)
+  }
+  for (const taxon of beforeTaxa) {
+    const counterpart = afterByName.get(taxon.name)
+    if (counterpart && !matchByAfterId.has(counterpart.id)) addMatch({ before: taxon, after: counterpart, by: "name" })
+  }
+
+  const unmatchedBefore = () => beforeTaxa.filter((taxon) => !matchByBeforeId.has(taxon.id))
+  for (const taxon of afterTaxa.filter((candidate) => !matchByAfterId.has(candidate.id))) {
+    const names = new Set(aliases(taxon))
+    const counterpart = unmatchedBefore().find(
+      (candidate) => names.has(candidate.name) || aliases(candidate).includes(taxon.name)
+    )
+    if (counterpart) addMatch({ before: counterpart, after: taxon, by: "synonym" })
+  }
+
+  const changes: TaxonChange[] = []
+  for (const taxon of afterTaxa) {
+    const match = matchByAfterId.get(taxon.id)
+    const afterSnapshot = snapshot(taxon, afterIndex)
+    if (!match) {
+      changes.push({
+        type: "added",
+        after: afterSnapshot,
+        message: `${taxon.rank} ${taxon.name} added${afterSnapshot.parentName ? ` under ${afterSnapshot.parentName}` : ""}.`,
+      })
+      continue
+    }
+
+    const beforeSnapshot = snapshot(match.before, beforeIndex)
+    const pair = { before: beforeSnapshot, after: afterSnapshot }
+    if (match.before.name !== taxon.name) {
+      changes.push({ type: "renamed", ...pair, message: `${match.before.name} renamed to ${taxon.name}.` })
+    }
+    if (match.before.rank !== taxon.rank) {
+      changes.push({
+        type: "reranked",
+        ...pair,
+        message: `${taxon.name} re-ranked from ${match.before.rank.toLowerCase()} to ${taxon.rank.toLowerCase()}.`,
+      })
+    }
+    const formerParent = match.before.parentId ? matchByBeforeId.get(match.before.parentId) : undefined
+    const moved =
+      taxon.parentId !== undefined && match.before.parentId !== undefined && formerParent?.after.id !== taxon.parentId
+    if (moved) {
+      changes.push({
+        type: "moved",
+        ...pair,
+        message: `${taxon.name} moved from ${beforeSnapshot.parentName} to ${afterSnapshot.parentName}.`,
+      })
+    }
+  }
+
+  for (const taxon of unmatchedBefore()) {
+    const beforeSnapshot = snapshot(taxon, beforeIndex)
+    changes.push({
+      type: "removed",
+      before: beforeSnapshot,
+      message: `${taxon.rank} ${taxon.name} removed${beforeSnapshot.parentName ? ` from ${beforeSnapshot.parentName}` : ""}.`,
+    })
+  }
+
+  const counts: Record<TaxonChangeType, number> = { added: 0, removed: 0, renamed: 0, moved: 0, reranked: 0 }
+  changes.forEach((change) => counts[change.type]++)
+
+  return { matches: Array.from(matchByAfterId.values()), changes, counts }
+}
+
+interface MergedTaxonFields {
+  key: string
+  /** Changes reported for this taxon; empty when it is unchanged. */
+  changes: TaxonChange[]
+  children: MergedTaxon[]
+}
+
+/**
+ * A node of the merged tree shown when reviewing a diff: a taxon of the newer
+ * version ("current", with its former state when it changed), a removed
+ * taxon, or the place a moved taxon was taken from ("movedAway"; its children
+ * are shown at its new place).
+ */
+export type MergedTaxon = MergedTaxonFields &
+  (
+    | { kind: "current"; before?: TaxonSnapshot; after: TaxonSnapshot }
+    | { kind: "removed" | "movedAway"; before: TaxonSnapshot }
+  )
+
+/**
+ * Lays the changes of a diff over the newer version's tree. Removed taxa and
+ * the former positions of moved taxa are inserted under their old parent's
+ * counterpart, or under their removed parent when it was removed too.
+ */
+export function mergeClassifications(before: Taxon, after: Taxon, diff: ClassificationDiff): MergedTaxon {
+  const beforeIndex = indexTaxa(before)
+  const afterIndex = indexTaxa(after)
+  const matchByBeforeId = new Map(diff.matches.map((match) => [match.before.id, match]))
+
+  const changesByAfterId = new Map<string, TaxonChange[]>()
+  const removed = new Map<string, TaxonChange>()
+  const moved = new Map<string, TaxonChange>()
+  for (const change of diff.changes) {
+    if (change.type === "removed" && change.before) removed.set(change.before.id, change)
+    if (change.type === "moved" && change.before) moved.set(change.before.id, change)
+    if (change.after) {
+      changesByAfterId.set(change.after.id, [...(changesByAfterId.get(change.after.id) ?? []), change])
+    }
+  }
+
+  const slotOf = (taxon: Taxon) => {
+    const parentMatch = taxon.parentId ? matchByBeforeId.get(taxon.parentId) : undefined
+    if (parentMatch) return `after:${parentMatch.after.id}`
+    return taxon.parentId ? `before:${taxon.parentId}` : `after:${after.id}`
+  }
+
+  const extras = new Map<string, Taxon[]>()
+  for (const taxon of flattenTaxa(before)) {
+    if (!removed.has(taxon.id) && !moved.has(taxon.id)) continue
+    const slot = slotOf(taxon)
+    extras.set(slot, [...(extras.get(slot) ?? []), taxon])
+  }
+
+  const buildExtra = (taxon: Taxon): MergedTaxon[] => {
+    const removal = removed.get(taxon.id)
+    if (removal) {
+      return [
+        {
+          kind: "removed",
+          key: `removed:${taxon.id}`,
+          before: snapshot(taxon, beforeIndex),
+          changes: [removal],
+          children: (extras.get(`before:${taxon.id}`) ?? []).flatMap(buildExtra),
+        },
+      ]
+    }
+    const move = moved.get(taxon.id)
+    if (!move) return []
+    return [{ kind: "movedAway", key: `moved:${taxon.id}`, before: snapshot(taxon, beforeIndex), changes: [move], children: [] }]
+  }
+
+  const build = (taxon: Taxon): MergedTaxon => {
+    const changes = changesByAfterId.get(taxon.id) ?? []
+    const match = changes.find((change) => change.before)
+    return {
+      kind: "current",
+      key: taxon.id,
+      before: match?.before,
+      after: snapshot(taxon, afterIndex),
+      changes,
+      children: [
+        ...Object.values(taxon.children).map(build),
+        ...(extras.get(`after:${taxon.id}`) ?? []).flatMap(buildExtra),
+      ],
+    }
+  }
+
+  return build(after)
+}
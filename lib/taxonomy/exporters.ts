@@ -0,0 +1,104 @@
+import { toBibTeX, toRis } from "./citations"
+import { toDarwinCoreArchive } from "./darwin-core"
+import type { ClassificationVersion, DatasetMetadata } from "./dataset"
+import { toDot, toGraphML } from "./graph"
+import type { Taxon } from "./model"
+import { toNewick, toNexus } from "./newick"
+import { collectReferences, type Reference } from "./references"
+import { toSkosJsonLd, toSkosTurtle } from "./skos"
+import { formatTaxonomyTable } from "./table"
+
+export interface TaxonomyExporter {
+  /** Shown in download links. */
+  label: string
+  extension: string
+  contentType: string
+  /** `params` holds the request's query string, for format-specific options. */
+  render: (root: Taxon, version: ClassificationVersion, params: URLSearchParams) => string | Uint8Array
+}
+
+/** The dataset's sources followed by the works cited in the tree, each once. */
+function citedWorks(root: Taxon, metadata: DatasetMetadata): Reference[] {
+  const works = [...metadata.sources, ...collectReferences(root).map((entry) => entry.reference)]
+  return works.filter((work, index) => works.findIndex((other) => other.id === work.id) === index)
+}
+
+/**
+ * Download formats served from `/export/<format>`, optionally for another
+ * classification version (`?version=<id>`) or a subtree (`?taxon=<id>`). DOT
+ * and GraphML also take `?cluster=phylum`.
+ */
+export const EXPORTERS = {
+  newick: {
+    label: "Newick",
+    extension: "nwk",
+    contentType: "text/plain; charset=utf-8",
+    render: (root) => `${toNewick(root)}\n`,
+  },
+  nexus: {
+    label: "NEXUS",
+    extension: "nex",
+    contentType: "text/plain; charset=utf-8",
+    render: (root) => toNexus(root),
+  },
+  csv: {
+    label: "CSV",
+    extension: "csv",
+    contentType: "text/csv; charset=utf-8",
+    render: (root) => formatTaxonomyTable(root),
+  },
+  tsv: {
+    label: "TSV",
+    extension: "tsv",
+    contentType: "text/tab-separated-values; charset=utf-8",
+    render: (root) => formatTaxonomyTable(root, "\t"),
+  },
+  skos: {
+    label: "SKOS (Turtle)",
+    extension: "ttl",
+    contentType: "text/turtle; charset=utf-8",
+    render: (root, version) => toSkosTurtle(root, version),
+  },
+  "skos-jsonld": {
+    label: "SKOS (JSON-LD)",
+    extension: "jsonld",
+    contentType: "application/ld+json",
+    render: (root, version) => toSkosJsonLd(root, version),
+  },
+  dot: {
+    label: "GraphViz DOT",
+    extension: "dot",
+    contentType: "text/vnd.graphviz; charset=utf-8",
+    render: (root, _version, params) => toDot(root, { clusterByPhylum: params.get("cluster") === "phylum" }),
+  },
+  graphml: {
+    label: "GraphML",
+    extension: "graphml",
+    contentType: "application/graphml+xml",
+    render: (root, _version, params) => toGraphML(root, { clusterByPhylum: params.get("cluster") === "phylum" }),
+  },
+  dwca: {
+    label: "Darwin Core Archive",
+    extension: "zip",
+    contentType: "application/zip",
+    render: (root, { metadata }) => toDarwinCoreArchive(root, metadata),
+  },
+  bibtex: {
+    label: "BibTeX",
+    extension: "bib",
+    contentType: "application/x-bibtex; charset=utf-8",
+    render: (root, { metadata }) => toBibTeX(citedWorks(root, metadata)),
+  },
+  ris: {
+    label: "RIS",
+    extension: "ris",
+    contentType: "application/x-research-info-systems; charset=utf-8",
+    render: (root, { metadata }) => toRis(citedWorks(root, metadata)),
+  },
+} satisfies Record<string, TaxonomyExporter>
+
+export type ExportFormat = keyof typeof EXPORTERS
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORTERS, value)
+}
@@ -0,0 +1,115 @@
+import { PlacementStatus, TaxonRank, taxonId, type Taxon } from "./model"
+import { walkTaxa } from "./tree"
+
+export interface GenusCandidate {
+  name: string
+  /** The taxon whose description mentions the genus, and under which it is placed. */
+  parentId: string
+  parentName: string
+  /** The part of the description the name was read from. */
+  phrase: string
+  /** Why the parser is unsure about this candidate; undefined when it is confident. */
+  uncertainty?: string
+}
+
+export interface ExtractionReport {
+  /** Genera added to the tree. */
+  added: GenusCandidate[]
+  /** Candidates the parser was unsure about, whether or not they were added. */
+  uncertain: GenusCandidate[]
+}
+
+export interface ExtractionOptions {
+  /** Also add candidates the parser is unsure about. Defaults to false. */
+  includeUncertain?: boolean
+}
+
+interface ListTrigger {
+  pattern: RegExp
+  /** Reason reported for every name found through this trigger, if it is a weak one. */
+  uncertainty?: string
+}
+
+const LIST_TRIGGERS: ListTrigger[] = [
+  { pattern: /\bexamples? (?:of )?gen(?:us|era) (?:is|are|includes?)\s+([^;.]+)/gi },
+  { pattern: /\btype genus(?: is)?\s+([^;.]+)/gi },
+  {
+    pattern: /\binclud(?:es|ing)\s+([A-Z][^;.]+)/g,
+    uncertainty: "Listed after \"includes\" without saying the names are genera",
+  },
+]
+
+const GENUS_NAME = /^[A-Z][a-z]+$/
+
+function parseCandidates(taxon: Taxon): GenusCandidate[] {
+  const description = taxon.description ?? ""
+  const candidates: GenusCandidate[] = []
+
+  for (const trigger of LIST_TRIGGERS) {
+    for (const match of Array.from(description.matchAll(trigger.pattern))) {
+      const phrase = match[0].trim()
+      const items = match[1].split(/,\s*(?:and\s+|or\s+)?|\s+(?:and|or)\s+/)
+
+      for (const item of items.map((value) => value.trim()).filter(Boolean)) {
+        const candidate = { parentId: taxon.id, parentName: taxon.name, phrase }
+        if (GENUS_NAME.test(item)) {
+          candidates.push({ ...candidate, name: item, uncertainty: trigger.uncertainty })
+          continue
+        }
+        const embedded = item.match(/\b[A-Z][a-z]+\b/)
+        if (embedded) {
+          candidates.push({ ...candidate, name: embedded[0], uncertainty: `Read "${embedded[0]}" out of "${item}"` })
+        }
+      }
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Finds genus names listed as examples in descriptions ("example genera include
+ * Allomyces and Coelomomyces", "example genus is Glomus") and adds each one, in
+ * place, as an auto-derived Genus child of the taxon whose description names it.
+ *
+ * Deeper taxa are processed first, so a genus named by both an order and one of
+ * its families is placed in the family. Names already used anywhere in the tree
+ * are never added twice.
+ */
+export function extractExampleGenera(root: Taxon, options: ExtractionOptions = {}): ExtractionReport {
+  const report: ExtractionReport = { added: [], uncertain: [] }
+
+  const taxa: { taxon: Taxon; depth: number }[] = []
+  const knownNames = new Set<string>()
+  walkTaxa(root, (taxon, depth) => {
+    taxa.push({ taxon, depth })
+    knownNames.add(taxon.name)
+  })
+  taxa.sort((a, b) => b.depth - a.depth)
+
+  for (const { taxon } of taxa) {
+    for (const candidate of parseCandidates(taxon)) {
+      if (knownNames.has(candidate.name)) continue
+      if (candidate.uncertainty) {
+        report.uncertain.push(candidate)
+        if (!options.includeUncertain) continue
+      }
+
+      taxon.children[candidate.name] = {
+        id: taxonId(TaxonRank.Genus, candidate.name),
+        name: candidate.name,
+        rank: TaxonRank.Genus,
+        placement: PlacementStatus.Accepted,
+        description: `Named as an example genus in the description of ${taxon.name}.`,
+        attributes: {},
+        autoDerived: true,
+        parentId: taxon.id,
+        children: {},
+      }
+      knownNames.add(candidate.name)
+      report.added.push(candidate)
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,208 @@
+import { resolveAttributes } from "./inheritance"
+import { TaxonRank, compareRanks, type Taxon, type TaxonAttributeValue } from "./model"
+import { nameParts } from "./names"
+import { escapeXml } from "./xml"
+
+export interface GraphExportOptions {
+  /**
+   * Group taxa by phylum: DOT output draws each phylum as a cluster, GraphML
+   * nests each phylum's taxa in a group node. Lineages placed directly under
+   * the kingdom without a phylum are grouped by their top-level taxon.
+   */
+  clusterByPhylum?: boolean
+}
+
+interface GraphNode {
+  taxon: Taxon
+  /** Effective attributes, inherited ones included, as resolved within the exported tree. */
+  attributes: Record<string, TaxonAttributeValue>
+  /** The phylum (or top-level taxon) the node is grouped under; undefined above phylum rank. */
+  cluster?: Taxon
+}
+
+function clusterOf(lineage: Taxon[]): Taxon | undefined {
+  const phylum = lineage.find((taxon) => taxon.rank === TaxonRank.Phylum)
+  if (phylum) return phylum
+  const [top, branch] = lineage
+  return branch && compareRanks(top.rank, TaxonRank.Phylum) < 0 ? branch : undefined
+}
+
+/** Lists the taxa in depth-first order with their effective attributes and cluster. */
+function collectNodes(root: Taxon): GraphNode[] {
+  const nodes: GraphNode[] = []
+  const visit = (taxon: Taxon, ancestors: Taxon[]) => {
+    const lineage = [...ancestors, taxon]
+    const { attributes } = resolveAttributes(lineage)
+    nodes.push({
+      taxon,
+      attributes: Object.fromEntries(Object.values(attributes).map((attribute) => [attribute.key, attribute.value])),
+      cluster: clusterOf(lineage),
+    })
+    Object.values(taxon.children).forEach((child) => visit(child, lineage))
+  }
+  visit(root, [])
+  return nodes
+}
+
+/** Splits nodes into those outside any cluster and the members of each cluster, in first-seen order. */
+function groupByCluster(nodes: GraphNode[]): { unclustered: GraphNode[]; clusters: [Taxon, GraphNode[]][] } {
+  const unclustered: GraphNode[] = []
+  const clusters = new Map<Taxon, GraphNode[]>()
+  for (const node of nodes) {
+    if (!node.cluster) unclustered.push(node)
+    else clusters.set(node.cluster, [...(clusters.get(node.cluster) ?? []), node])
+  }
+  return { unclustered, clusters: Array.from(clusters.entries()) }
+}
+
+function formatValue(value: TaxonAttributeValue): string {
+  return Array.isArray(value) ? value.join("; ") : String(value)
+}
+
+function edges(nodes: GraphNode[]): [parent: Taxon, child: Taxon][] {
+  return nodes.flatMap(({ taxon }) => Object.values(taxon.children).map((child): [Taxon, Taxon] => [taxon, child]))
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+}
+
+/** An HTML-like DOT label: the name, italicized at genus and below, over the rank. */
+function dotLabel(taxon: Taxon): string {
+  const name = nameParts(taxon)
+    .map((part) => (part.italic ? `<I>${escapeXml(part.text)}</I>` : escapeXml(part.text)))
+    .join("")
+  return `<${name}<BR/><FONT POINT-SIZE="10">${taxon.rank}</FONT>>`
+}
+
+/**
+ * Serializes the tree as a GraphViz DOT digraph, edges pointing from parent to
+ * child. Each node is labelled with its name and rank and carries `taxonRank`,
+ * `placement` and its effective taxon attributes as extra DOT attributes,
+ * which renderers ignore but scripts and converters can read.
+ */
+export function toDot(root: Taxon, options: GraphExportOptions = {}): string {
+  const nodes = collectNodes(root)
+
+  const nodeLine = ({ taxon, attributes }: GraphNode, indent: string) => {
+    const fields = [
+      `label=${dotLabel(taxon)}`,
+      `taxonRank=${dotString(taxon.rank)}`,
+      `placement=${dotString(taxon.placement)}`,
+      ...Object.entries(attributes).map(([key, value]) => `${dotString(key)}=${dotString(formatValue(value))}`),
+    ]
+    return `${indent}${dotString(taxon.id)} [${fields.join(", ")}];`
+  }
+
+  const lines = [
+    `digraph ${dotString(root.name)} {`,
+    "  rankdir=LR;",
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+  ]
+
+  if (options.clusterByPhylum) {
+    const { unclustered, clusters } = groupByCluster(nodes)
+    lines.push(...unclustered.map((node) => nodeLine(node, "  ")))
+    for (const [cluster, members] of clusters) {
+      lines.push(
+        `  subgraph ${dotString(`cluster_${cluster.id}`)} {`,
+        `    label=${dotString(cluster.name)};`,
+        "    style=rounded;",
+        ...members.map((node) => nodeLine(node, "    ")),
+        "  }"
+      )
+    }
+  } else {
+    lines.push(...nodes.map((node) => nodeLine(node, "  ")))
+  }
+
+  lines.push(...edges(nodes).map(([parent, child]) => `  ${dotString(parent.id)} -> ${dotString(child.id)};`), "}", "")
+  return lines.join("\n")
+}
+
+interface GraphMLKey {
+  id: string
+  name: string
+  type: "string" | "boolean" | "double"
+}
+
+function graphMLType(values: TaxonAttributeValue[]): GraphMLKey["type"] {
+  if (values.every((value) => typeof value === "boolean")) return "boolean"
+  if (values.every((value) => typeof value === "number")) return "double"
+  return "string"
+}
+
+/**
+ * Serializes the tree as GraphML, edges pointing from parent to child. Nodes
+ * carry `label` ("Name (Rank)"), `name`, `rank`, `placement`, `phylum` and one
+ * data key per effective taxon attribute, typed as boolean or double when all
+ * its values are, so yEd and Gephi can map them to styles.
+ */
+export function toGraphML(root: Taxon, options: GraphExportOptions = {}): string {
+  const nodes = collectNodes(root)
+  const fixedKeys: GraphMLKey[] = [
+    { id: "label", name: "label", type: "string" },
+    { id: "name", name: "name", type: "string" },
+    { id: "rank", name: "rank", type: "string" },
+    { id: "placement", name: "placement", type: "string" },
+    { id: "phylum", name: "phylum", type: "string" },
+  ]
+  const attributeNames = Array.from(new Set(nodes.flatMap((node) => Object.keys(node.attributes)))).sort()
+  const attributeKeys = attributeNames.map(
+    (name, index): GraphMLKey => ({
+      id: `a${index}`,
+      name,
+      type: graphMLType(nodes.flatMap((node) => (name in node.attributes ? [node.attributes[name]] : []))),
+    })
+  )
+
+  const data = (key: string, value: string) => `<data key="${key}">${escapeXml(value)}</data>`
+  const nodeXml = ({ taxon, attributes, cluster }: GraphNode, indent: string) =>
+    [
+      `${indent}<node id="${escapeXml(taxon.id)}">`,
+      `${indent}  ${data("label", `${taxon.name} (${taxon.rank})`)}`,
+      `${indent}  ${data("name", taxon.name)}`,
+      `${indent}  ${data("rank", taxon.rank)}`,
+      `${indent}  ${data("placement", taxon.placement)}`,
+      ...(cluster ? [`${indent}  ${data("phylum", cluster.name)}`] : []),
+      ...attributeKeys
+        .filter((key) => key.name in attributes)
+        .map((key) => `${indent}  ${data(key.id, formatValue(attributes[key.name]))}`),
+      `${indent}</node>`,
+    ].join("\n")
+
+  const body: string[] = []
+  if (options.clusterByPhylum) {
+    const { unclustered, clusters } = groupByCluster(nodes)
+    body.push(...unclustered.map((node) => nodeXml(node, "    ")))
+    for (const [cluster, members] of clusters) {
+      body.push(
+        `    <node id="${escapeXml(`group-${cluster.id}`)}">`,
+        `      ${data("label", cluster.name)}`,
+        `      <graph id="${escapeXml(`group-${cluster.id}:`)}" edgedefault="directed">`,
+        ...members.map((node) => nodeXml(node, "        ")),
+        "      </graph>",
+        "    </node>"
+      )
+    }
+  } else {
+    body.push(...nodes.map((node) => nodeXml(node, "    ")))
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...[...fixedKeys, ...attributeKeys].map(
+      (key) =>
+        `  <key id="${key.id}" for="node" attr.name="${escapeXml(key.name)}" attr.type="${key.type}"/>`
+    ),
+    '  <graph id="G" edgedefault="directed">',
+    ...body,
+    ...edges(nodes).map(
+      ([parent, child]) => `    <edge source="${escapeXml(parent.id)}" target="${escapeXml(child.id)}"/>`
+    ),
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n")
+}
@@ -0,0 +1,26 @@
+import type { IdentifierSource, Taxon } from "./model"
+
+interface IdentifierSourceInfo {
+  label: string
+  url: (id: string) => string
+}
+
+/** Display names and record URLs for each external name database. */
+export const IDENTIFIER_SOURCES: Record<IdentifierSource, IdentifierSourceInfo> = {
+  gbif: { label: "GBIF", url: (id) => `https://www.gbif.org/species/${id}` },
+  indexFungorum: {
+    label: "Index Fungorum",
+    url: (id) => `https://www.indexfungorum.org/names/NamesRecord.asp?RecordID=${id}`,
+  },
+  mycoBank: { label: "MycoBank", url: (id) => `https://www.mycobank.org/MB/${id}` },
+  wikidata: { label: "Wikidata", url: (id) => `https://www.wikidata.org/wiki/${id}` },
+}
+
+/** URLs of the taxon's records in external databases, in {@link IDENTIFIER_SOURCES} order. */
+export function identifierUrls(taxon: Pick<Taxon, "identifiers">): string[] {
+  const identifiers = taxon.identifiers ?? {}
+  return (Object.keys(IDENTIFIER_SOURCES) as IdentifierSource[]).flatMap((source) => {
+    const id = identifiers[source]
+    return id ? [IDENTIFIER_SOURCES[source].url(id)] : []
+  })
+}
@@ -0,0 +1,78 @@
+import type { Taxon, TaxonAttributeValue } from "./model"
+
+/** Where an attribute value was defined. */
+export interface AttributeSource {
+  value: TaxonAttributeValue
+  sourceId: string
+  sourceName: string
+}
+
+export interface ResolvedAttribute extends AttributeSource {
+  key: string
+  /** True when the value comes from an ancestor rather than the taxon itself. */
+  inherited: boolean
+  /** Ancestor values shadowed by this one, nearest ancestor first. */
+  overridden: AttributeSource[]
+}
+
+export interface BlockedAttribute extends AttributeSource {
+  key: string
+  /** The taxon that declared the block. */
+  blockedById: string
+  blockedByName: string
+}
+
+export interface ResolvedAttributes {
+  /** Effective attributes of the taxon, keyed by attribute name. */
+  attributes: Record<string, ResolvedAttribute>
+  /** Ancestor values that were not inherited because a taxon in the lineage blocked them. */
+  blocked: BlockedAttribute[]
+}
+
+/**
+ * Computes the effective attributes of the last taxon in `lineage` (ordered root
+ * first). Each taxon first drops the keys it lists in `blockedAttributes`, then
+ * applies its own attributes, overriding anything inherited under the same key.
+ */
+export function resolveAttributes(lineage: Taxon[]): ResolvedAttributes {
+  const effective: Record<string, ResolvedAttribute> = {}
+  const blocked: BlockedAttribute[] = []
+  const target = lineage[lineage.length - 1]
+
+  for (const taxon of lineage) {
+    for (const key of taxon.blockedAttributes ?? []) {
+      const current = effective[key]
+      if (!current) continue
+      blocked.push({
+        key,
+        value: current.value,
+        sourceId: current.sourceId,
+        sourceName: current.sourceName,
+        blockedById: taxon.id,
+        blockedByName: taxon.name,
+      })
+      delete effective[key]
+    }
+
+    for (const [key, value] of Object.entries(taxon.attributes)) {
+      const current = effective[key]
+      const overridden = current
+        ? [{ value: current.value, sourceId: current.sourceId, sourceName: current.sourceName }, ...current.overridden]
+        : []
+      effective[key] = {
+        key,
+        value,
+        sourceId: taxon.id,
+        sourceName: taxon.name,
+        inherited: false,
+        overridden,
+      }
+    }
+  }
+
+  for (const attribute of Object.values(effective)) {
+    attribute.inherited = attribute.sourceId !== target?.id
+  }
+
+  return { attributes: effective, blocked }
+}
@@ -0,0 +1,182 @@
+/**
+ * Shared taxonomy model used by the dataset in `data/` and every UI component.
+ *
+ * A taxon is a plain, serializable object: the parent is referenced by id rather
+ * than by object so trees can be passed from server to client components.
+ */
+
+import type { DescriptionStatement, Reference } from "./references"
+
+export enum TaxonRank {
+  Kingdom = "Kingdom",
+  Subkingdom = "Subkingdom",
+  Phylum = "Phylum",
+  Subphylum = "Subphylum",
+  Class = "Class",
+  Subclass = "Subclass",
+  Order = "Order",
+  Suborder = "Suborder",
+  Family = "Family",
+  Subfamily = "Subfamily",
+  Tribe = "Tribe",
+  Genus = "Genus",
+  Species = "Species",
+  Subspecies = "Subspecies",
+  Variety = "Variety",
+  Form = "Form",
+}
+
+/** Canonical rank ordering, from the most inclusive rank to the least. */
+export const RANK_ORDER: readonly TaxonRank[] = [
+  TaxonRank.Kingdom,
+  TaxonRank.Subkingdom,
+  TaxonRank.Phylum,
+  TaxonRank.Subphylum,
+  TaxonRank.Class,
+  TaxonRank.Subclass,
+  TaxonRank.Order,
+  TaxonRank.Suborder,
+  TaxonRank.Family,
+  TaxonRank.Subfamily,
+  TaxonRank.Tribe,
+  TaxonRank.Genus,
+  TaxonRank.Species,
+  TaxonRank.Subspecies,
+  TaxonRank.Variety,
+  TaxonRank.Form,
+]
+
+/** Ranks a classification is expected to pass through on the way down. */
+export const PRINCIPAL_RANKS: readonly TaxonRank[] = [
+  TaxonRank.Kingdom,
+  TaxonRank.Phylum,
+  TaxonRank.Class,
+  TaxonRank.Order,
+  TaxonRank.Family,
+  TaxonRank.Genus,
+  TaxonRank.Species,
+]
+
+/** How confidently a taxon is placed under its parent. */
+export enum PlacementStatus {
+  Accepted = "accepted",
+  /** Of uncertain position: the taxon is placed at the nearest rank it certainly belongs to. */
+  IncertaeSedis = "incertae sedis",
+  Provisional = "provisional",
+  Disputed = "disputed",
+}
+
+export const PLACEMENT_LABELS: Record<PlacementStatus, string> = {
+  [PlacementStatus.Accepted]: "Accepted",
+  [PlacementStatus.IncertaeSedis]: "Incertae sedis",
+  [PlacementStatus.Provisional]: "Provisional",
+  [PlacementStatus.Disputed]: "Disputed",
+}
+
+export enum SynonymType {
+  /** Based on the same type as the accepted name (nomenclatural synonym). */
+  Homotypic = "homotypic",
+  /** Based on a different type (taxonomic synonym). */
+  Heterotypic = "heterotypic",
+}
+
+export interface Synonym {
+  name: string
+  type: SynonymType
+  rank?: TaxonRank
+  /** The synonym covers only part of this taxon (pro parte). */
+  proParte?: boolean
+  note?: string
+}
+
+/** The authority for a scientific name, e.g. "(L.) Lam. 1783". */
+export interface Authorship {
+  /** Abbreviated author(s) of the name in its current form (e.g. "A. Braun", "Moreau ex R.K. Benj."). */
+  authors: string
+  /** Author(s) of the basionym, cited in parentheses when the name was transferred or re-ranked. */
+  basionymAuthors?: string
+  /** Year of valid publication. */
+  year?: number
+}
+
+/** A parent the taxon was classified under in an earlier scheme. */
+export interface FormerPlacement {
+  parentName: string
+  parentRank?: TaxonRank
+  /** When or by whom the placement was abandoned (e.g. "Hibbett et al. 2007"). */
+  until?: string
+  note?: string
+}
+
+/** External name databases a taxon can be cross-referenced to. */
+export type IdentifierSource = "gbif" | "indexFungorum" | "mycoBank" | "wikidata"
+
+/** The taxon's record ids in external databases (e.g. `{ gbif: "5", wikidata: "Q764" }`). */
+export type TaxonIdentifiers = Partial<Record<IdentifierSource, string>>
+
+export type TaxonAttributeValue = string | number | boolean | string[]
+
+export type TaxonAttributes = Record<string, TaxonAttributeValue>
+
+export interface Taxon {
+  /** Stable identifier, unique within a tree (e.g. "order-chytridiales"). */
+  id: string
+  /** Full name; for species and below, the composed binomial or trinomial. */
+  name: string
+  /** Final epithet for species and infraspecific taxa (e.g. "olla" in "Chytridium olla"). */
+  epithet?: string
+  rank: TaxonRank
+  placement: PlacementStatus
+  authorship?: Authorship
+  /** Other names this taxon has been known by. */
+  synonyms?: Synonym[]
+  /** The earlier name on which the current name is based, if it was transferred or re-ranked. */
+  basionym?: string
+  formerPlacements?: FormerPlacement[]
+  identifiers?: TaxonIdentifiers
+  description?: string
+  /** The description split into statements with their citations; `description` holds the joined text. */
+  statements?: DescriptionStatement[]
+  /** Works the taxon as a whole is cited to. */
+  references?: Reference[]
+  attributes: TaxonAttributes
+  /** Attribute keys this taxon does not inherit from its ancestors. */
+  blockedAttributes?: string[]
+  /** True for taxa generated from another taxon's description rather than curated by hand. */
+  autoDerived?: boolean
+  /** Id of the parent taxon; undefined for the root. */
+  parentId?: string
+  /** Child taxa keyed by name. */
+  children: Record<string, Taxon>
+}
+
+export function isTaxonRank(value: string): value is TaxonRank {
+  return (RANK_ORDER as readonly string[]).includes(value)
+}
+
+/** True for every placement other than {@link PlacementStatus.Accepted}. */
+export function isUncertainPlacement(taxon: Pick<Taxon, "placement">): boolean {
+  return taxon.placement !== PlacementStatus.Accepted
+}
+
+/** Position of a rank in {@link RANK_ORDER}; lower is more inclusive. */
+export function rankIndex(rank: TaxonRank): number {
+  return RANK_ORDER.indexOf(rank)
+}
+
+/**
+ * Compares two ranks by canonical order. Negative when `a` is more inclusive
+ * than `b`, positive when it is less inclusive, zero when equal.
+ */
+export function compareRanks(a: TaxonRank, b: TaxonRank): number {
+  return rankIndex(a) - rankIndex(b)
+}
+
+/** Builds the stable id for a taxon from its rank and name. */
+export function taxonId(rank: TaxonRank, name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return `${rank.toLowerCase()}-${slug}`
+}
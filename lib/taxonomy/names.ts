@@ -0,0 +1,100 @@
+import { TaxonRank, compareRanks, type Authorship, type Taxon } from "./model"
+
+/** Abbreviations placed before infraspecific epithets (ICN Art. 24). */
+export const RANK_CONNECTORS: Partial<Record<TaxonRank, string>> = {
+  [TaxonRank.Subspecies]: "subsp.",
+  [TaxonRank.Variety]: "var.",
+  [TaxonRank.Form]: "f.",
+}
+
+/** A run of a displayed name, so connectors can be set upright inside an italic name. */
+export interface NamePart {
+  text: string
+  italic: boolean
+}
+
+/** Names at genus rank and below are italicized. */
+export function isItalicizedRank(rank: TaxonRank): boolean {
+  return compareRanks(rank, TaxonRank.Genus) >= 0
+}
+
+/** True for ranks whose names are composed from the parent's name plus an epithet. */
+export function isEpithetRank(rank: TaxonRank): boolean {
+  return compareRanks(rank, TaxonRank.Species) >= 0
+}
+
+/**
+ * Composes the full name of a species or infraspecific taxon from its parent's
+ * name and its own epithet: "Chytridium" + "olla" gives "Chytridium olla", and
+ * "Mucor circinelloides" + "lusitanicus" at form rank gives
+ * "Mucor circinelloides f. lusitanicus".
+ */
+export function composeName(rank: TaxonRank, epithet: string, parent: Pick<Taxon, "name" | "rank">): string {
+  if (rank === TaxonRank.Species) {
+    if (parent.rank !== TaxonRank.Genus) {
+      throw new Error(`Species "${epithet}" must be placed in a genus, not a ${parent.rank.toLowerCase()}.`)
+    }
+    return `${parent.name} ${epithet}`
+  }
+
+  const connector = RANK_CONNECTORS[rank]
+  if (!connector) {
+    throw new Error(`${rank} names are not composed from epithets.`)
+  }
+  if (!isEpithetRank(parent.rank)) {
+    throw new Error(`${rank} "${epithet}" must be placed in a species or below, not a ${parent.rank.toLowerCase()}.`)
+  }
+  return `${parent.name} ${connector} ${epithet}`
+}
+
+/**
+ * Recovers the epithet from a full species or infraspecific name, when the
+ * name is exactly what {@link composeName} would give under `parent`.
+ * Returns undefined for higher ranks and for names that do not compose.
+ */
+export function epithetFromName(name: string, rank: TaxonRank, parent: Pick<Taxon, "name" | "rank">): string | undefined {
+  if (!isEpithetRank(rank)) return undefined
+  const epithet = name.split(/\s+/).pop() as string
+  try {
+    return composeName(rank, epithet, parent) === name ? epithet : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** Splits a taxon's name into display runs, italicizing genus-and-below names but not rank connectors. */
+export function nameParts(taxon: Pick<Taxon, "name" | "rank">): NamePart[] {
+  if (!isItalicizedRank(taxon.rank)) return [{ text: taxon.name, italic: false }]
+
+  const connectors = new Set(Object.values(RANK_CONNECTORS))
+  const parts: NamePart[] = []
+  for (const word of taxon.name.split(" ")) {
+    const italic = !connectors.has(word)
+    const last = parts[parts.length - 1]
+    if (last && last.italic === italic) {
+      last.text += ` ${word}`
+    } else {
+      parts.push({ text: parts.length > 0 ? ` ${word}` : word, italic })
+    }
+  }
+  return parts
+}
+
+/**
+ * Formats an authority in standard form: basionym authors in parentheses,
+ * then the combining authors, then the year, e.g. "(L.) Lam. 1783".
+ */
+export function formatAuthority(authorship?: Authorship): string {
+  if (!authorship) return ""
+  const parts = []
+  if (authorship.basionymAuthors) parts.push(`(${authorship.basionymAuthors})`)
+  parts.push(authorship.authors)
+  if (authorship.year) parts.push(String(authorship.year))
+  return parts.join(" ")
+}
+
+/** Formats the full scientific name of a taxon, followed by its authority when known. */
+export function formatScientificName(taxon: Pick<Taxon, "name" | "authorship">): string {
+  const authority = formatAuthority(taxon.authorship)
+  return authority ? `${taxon.name} ${authority}` : taxon.name
+}
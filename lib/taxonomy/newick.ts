@@ -0,0 +1,316 @@
+import { PRINCIPAL_RANKS, PlacementStatus, RANK_ORDER, TaxonRank, compareRanks, isTaxonRank, taxonId, type Taxon } from "./model"
+import { RANK_SUFFIXES } from "./nomenclature"
+import { epithetFromName } from "./names"
+import { flattenTaxa } from "./tree"
+
+export interface NewickExportOptions {
+  /**
+   * Annotate each node with its rank as an NHX comment (`[&&NHX:rank=Order]`).
+   * Tools that do not understand NHX treat it as a comment. Defaults to true.
+   */
+  ranks?: boolean
+}
+
+/** Characters that force a Newick label to be quoted. Underscores are included because unquoted ones read back as spaces. */
+const NEEDS_QUOTES = /[\s()[\]':;,_]/
+
+/** Quotes a label for Newick/NEXUS when it contains spaces, punctuation or underscores. */
+export function quoteNewickLabel(label: string): string {
+  if (label !== "" && !NEEDS_QUOTES.test(label)) return label
+  return `'${label.replace(/'/g, "''")}'`
+}
+
+function writeNode(taxon: Taxon, options: NewickExportOptions): string {
+  const children = Object.values(taxon.children)
+  const subtree = children.length > 0 ? `(${children.map((child) => writeNode(child, options)).join(",")})` : ""
+  const annotation = options.ranks === false ? "" : `[&&NHX:rank=${taxon.rank}]`
+  return `${subtree}${quoteNewickLabel(taxon.name)}${annotation}`
+}
+
+/** Serializes a taxon and its descendants as a Newick tree, with every node (internal ones included) labelled. */
+export function toNewick(root: Taxon, options: NewickExportOptions = {}): string {
+  return `${writeNode(root, options)};`
+}
+
+/**
+ * Serializes a taxon and its descendants as a NEXUS file: a TAXA block listing
+ * the terminal taxa and a TREES block holding the Newick tree.
+ */
+export function toNexus(root: Taxon, options: NewickExportOptions = {}): string {
+  const leaves = flattenTaxa(root).filter((taxon) => Object.keys(taxon.children).length === 0)
+  const treeName = quoteNewickLabel(root.name)
+  return [
+    "#NEXUS",
+    "",
+    "BEGIN TAXA;",
+    `  DIMENSIONS NTAX=${leaves.length};`,
+    "  TAXLABELS",
+    ...leaves.map((leaf) => `    ${quoteNewickLabel(leaf.name)}`),
+    "  ;",
+    "END;",
+    "",
+    "BEGIN TREES;",
+    `  TREE ${treeName} = [&R] ${toNewick(root, options)}`,
+    "END;",
+    "",
+  ].join("\n")
+}
+
+export interface NewickNode {
+  name?: string
+  length?: number
+  /** Key/value pairs from an NHX comment (`[&&NHX:key=value:...]`). */
+  annotations: Record<string, string>
+  children: NewickNode[]
+}
+
+/** Thrown when a Newick or NEXUS document cannot be parsed. */
+export class NewickParseError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(`${message} (at character ${position})`)
+    this.name = "NewickParseError"
+  }
+}
+
+/**
+ * Parses a single Newick tree. Quoted labels keep their text as written;
+ * underscores in unquoted labels become spaces. Branch lengths and NHX
+ * annotations are kept; other bracketed comments are skipped.
+ */
+export function parseNewick(text: string): NewickNode {
+  let position = 0
+
+  const skipWhitespaceAndComments = (node?: NewickNode) => {
+    for (;;) {
+      while (position < text.length && /\s/.test(text[position])) position++
+      if (text[position] !== "[") return
+      const end = text.indexOf("]", position)
+      if (end === -1) throw new NewickParseError("Unterminated comment", position)
+      const comment = text.slice(position + 1, end)
+      if (node && comment.startsWith("&&NHX")) {
+        for (const pair of comment.slice("&&NHX".length).split(":").filter(Boolean)) {
+          const [key, ...value] = pair.split("=")
+          node.annotations[key] = value.join("=")
+        }
+      }
+      position = end + 1
+    }
+  }
+
+  const readLabel = (): string | undefined => {
+    if (text[position] === "'") {
+      let label = ""
+      position++
+      for (;;) {
+        if (position >= text.length) throw new NewickParseError("Unterminated quoted label", position)
+        if (text[position] === "'") {
+          if (text[position + 1] === "'") {
+            label += "'"
+            position += 2
+            continue
+          }
+          position++
+          return label
+        }
+        label += text[position++]
+      }
+    }
+    const match = /^[^\s()[\]':;,]+/.exec(text.slice(position))
+    if (!match) return undefined
+    position += match[0].length
+    return match[0].replace(/_/g, " ")
+  }
+
+  const readNode = (): NewickNode => {
+    const node: NewickNode = { annotations: {}, children: [] }
+    skipWhitespaceAndComments()
+    if (text[position] === "(") {
+      position++
+      for (;;) {
+        node.children.push(readNode())
+        skipWhitespaceAndComments()
+        if (text[position] === ",") {
+          position++
+          continue
+        }
+        if (text[position] === ")") {
+          position++
+          break
+        }
+        throw new NewickParseError('Expected "," or ")"', position)
+      }
+    }
+    skipWhitespaceAndComments(node)
+    node.name = readLabel()
+    skipWhitespaceAndComments(node)
+    if (text[position] === ":") {
+      position++
+      skipWhitespaceAndComments(node)
+      const match = /^[-+0-9.eE]+/.exec(text.slice(position))
+      if (!match) throw new NewickParseError("Expected a branch length", position)
+      node.length = Number(match[0])
+      position += match[0].length
+      skipWhitespaceAndComments(node)
+    }
+    return node
+  }
+
+  const root = readNode()
+  skipWhitespaceAndComments()
+  if (text[position] !== ";") throw new NewickParseError('Expected ";" at the end of the tree', position)
+  return root
+}
+
+/**
+ * Extracts the first tree from a NEXUS document's TREES block and parses it,
+ * replacing labels through the block's TRANSLATE table when there is one.
+ */
+export function parseNexus(text: string): NewickNode {
+  const block = /begin\s+trees\s*;([\s\S]*?)end\s*;/i.exec(text)
+  if (!block) throw new NewickParseError("No TREES block found", 0)
+  const body = block[1]
+
+  const translation = new Map<string, string>()
+  const translate = /translate\s+([\s\S]*?);/i.exec(body)
+  if (translate) {
+    for (const entry of translate[1].split(",")) {
+      const match = /^\s*(\S+)\s+(?:'((?:[^']|'')*)'|(\S+))\s*$/.exec(entry)
+      if (match) translation.set(match[1], (match[2]?.replace(/''/g, "'") ?? match[3]).replace(/_/g, " "))
+    }
+  }
+
+  const tree = /tree\s+[^=]+=\s*(?:\[[^\]]*\]\s*)*([\s\S]*?;)/i.exec(body)
+  if (!tree) throw new NewickParseError("No TREE statement found", block.index)
+  const root = parseNewick(tree[1])
+
+  if (translation.size > 0) {
+    const relabel = (node: NewickNode) => {
+      if (node.name !== undefined) node.name = translation.get(node.name) ?? node.name
+      node.children.forEach(relabel)
+    }
+    relabel(root)
+  }
+  return root
+}
+
+export interface NewickImportOptions {
+  /**
+   * What to do with unlabelled internal nodes: "collapse" (the default) hands
+   * their children to the nearest labelled ancestor; "label" keeps them as
+   * provisional taxa named "Unnamed clade 1", "Unnamed clade 2", and so on,
+   * each ranked one principal rank below its parent unless annotated.
+   */
+  unnamed?: "collapse" | "label"
+  /** Rank of the root when it has no rank annotation and none can be read from its name. Defaults to Kingdom. */
+  rootRank?: TaxonRank
+}
+
+export interface NewickImportResult {
+  root: Taxon
+  /** Nodes that were dropped or could not be ranked exactly. */
+  warnings: string[]
+}
+
+/** The first principal rank below `parentRank`, or the lowest rank when there is none. */
+function principalRankBelow(parentRank: TaxonRank): TaxonRank {
+  return PRINCIPAL_RANKS.find((rank) => compareRanks(rank, parentRank) > 0) ?? RANK_ORDER[RANK_ORDER.length - 1]
+}
+
+/**
+ * Picks a rank for an unannotated node: species and infraspecific ranks from
+ * binomial/trinomial names, otherwise from the name's suffix where that is
+ * unambiguous ("-ales" is an order). An unsuffixed single word below an order
+ * can only be a genus; above that it takes the next principal rank below the
+ * parent, and the root falls back to `rootRank`.
+ */
+function inferRank(name: string, parentRank: TaxonRank | undefined, rootRank: TaxonRank): TaxonRank {
+  const words = name.trim().split(/\s+/)
+  if (words.length >= 2 && /^[a-z]/.test(words[1])) {
+    if (words.includes("var.")) return TaxonRank.Variety
+    if (words.includes("f.")) return TaxonRank.Form
+    if (words.includes("subsp.")) return TaxonRank.Subspecies
+    return TaxonRank.Species
+  }
+
+  const bySuffix = (Object.entries(RANK_SUFFIXES) as [TaxonRank, string][])
+    .filter(([, suffix]) => name.toLowerCase().endsWith(suffix))
+    .sort(([, a], [, b]) => b.length - a.length)[0]
+  if (bySuffix && (!parentRank || compareRanks(bySuffix[0], parentRank) > 0)) return bySuffix[0]
+
+  if (!parentRank) return rootRank
+  if (compareRanks(parentRank, TaxonRank.Order) >= 0 && compareRanks(parentRank, TaxonRank.Genus) < 0) {
+    return TaxonRank.Genus
+  }
+  return principalRankBelow(parentRank)
+}
+
+/** Builds a taxon tree from a parsed Newick or NEXUS tree. */
+export function newickToTaxonomy(tree: NewickNode, options: NewickImportOptions = {}): NewickImportResult {
+  const warnings: string[] = []
+  let unnamedCount = 0
+
+  const rankOf = (node: NewickNode, name: string, parentRank?: TaxonRank): TaxonRank => {
+    const annotated = node.annotations.rank
+    if (annotated && isTaxonRank(annotated)) return annotated
+    if (annotated) warnings.push(`Unknown rank "${annotated}" on "${name}"; inferring one instead.`)
+    // A made-up "Unnamed clade N" says nothing about rank (and would read as a binomial).
+    if (!node.name?.trim() && parentRank) return principalRankBelow(parentRank)
+    return inferRank(name, parentRank, options.rootRank ?? TaxonRank.Kingdom)
+  }
+
+  const build = (node: NewickNode, name: string, parent?: Taxon): Taxon => {
+    const rank = rankOf(node, name, parent?.rank)
+    const taxon: Taxon = {
+      id: taxonId(rank, name),
+      name,
+      epithet: parent ? epithetFromName(name, rank, parent) : undefined,
+      rank,
+      placement: node.name === undefined ? PlacementStatus.Provisional : PlacementStatus.Accepted,
+      attributes: {},
+      parentId: parent?.id,
+      children: {},
+    }
+    attachChildren(node, taxon)
+    return taxon
+  }
+
+  const attachChildren = (node: NewickNode, parent: Taxon) => {
+    for (const child of node.children) {
+      let name = child.name?.trim()
+      if (!name) {
+        if (child.children.length === 0) {
+          warnings.push(`Dropped an unlabelled leaf under "${parent.name}".`)
+          continue
+        }
+        if (options.unnamed !== "label") {
+          attachChildren(child, parent)
+          continue
+        }
+        name = `Unnamed clade ${++unnamedCount}`
+      }
+      if (parent.children[name]) {
+        warnings.push(`Dropped a second "${name}" under "${parent.name}".`)
+        continue
+      }
+      parent.children[name] = build(child, name, parent)
+    }
+  }
+
+  let rootNode = tree
+  let rootName = tree.name?.trim()
+  if (!rootName) {
+    const labelled = tree.children.filter((child) => child.name?.trim())
+    if (tree.children.length === 1 && labelled.length === 1) {
+      rootNode = labelled[0]
+      rootName = labelled[0].name?.trim()
+    } else {
+      rootName = "Root"
+      warnings.push('The tree has no labelled root; named it "Root".')
+    }
+  }
+
+  return { root: build(rootNode, rootName as string), warnings }
+}
@@ -0,0 +1,69 @@
+import { TaxonRank, type Taxon } from "./model"
+
+/**
+ * Standard name endings for fungal taxa above genus (ICN Art. 16–19 and Rec. 16A).
+ * Ranks without an entry are not checked.
+ */
+export const RANK_SUFFIXES: Partial<Record<TaxonRank, string>> = {
+  [TaxonRank.Phylum]: "mycota",
+  [TaxonRank.Subphylum]: "mycotina",
+  [TaxonRank.Class]: "mycetes",
+  [TaxonRank.Subclass]: "mycetidae",
+  [TaxonRank.Order]: "ales",
+  [TaxonRank.Suborder]: "ineae",
+  [TaxonRank.Family]: "aceae",
+  [TaxonRank.Subfamily]: "oideae",
+  [TaxonRank.Tribe]: "eae",
+}
+
+export interface NameSuffixIssue {
+  taxonId: string
+  name: string
+  rank: TaxonRank
+  expectedSuffix: string
+  /** The name rebuilt on the same stem with the expected ending. */
+  suggestion: string
+  message: string
+}
+
+// Longest first, so "mycotina" is stripped before "mycota".
+const KNOWN_SUFFIXES = Array.from(new Set(Object.values(RANK_SUFFIXES))).sort((a, b) => b.length - a.length)
+
+/** Latin endings dropped from names that carry no rank suffix (e.g. Microsporidia). */
+const LATIN_ENDING = /(ae|a|us|um|es|is)$/
+
+/** Rebuilds `name` on its stem with `suffix`, inserting the connecting "o" before "-myc…" endings. */
+function suggestName(name: string, suffix: string): string {
+  const known = KNOWN_SUFFIXES.find((candidate) => name.toLowerCase().endsWith(candidate))
+  let stem = known ? name.slice(0, -known.length) : name.replace(LATIN_ENDING, "")
+  stem = stem.replace(/o$/, "")
+  return /^[aeiou]/.test(suffix) ? stem + suffix : `${stem}o${suffix}`
+}
+
+/**
+ * Checks a taxon's name against the ending expected for its rank. Only the
+ * leading word is considered, so qualifiers after the name are ignored. A name
+ * with a longer ending of another rank does not conform, so a family name
+ * ("-aceae") is not taken for a tribe ("-eae"). Returns undefined when the name
+ * conforms or the rank has no rule.
+ */
+export function checkNameSuffix(taxon: Pick<Taxon, "id" | "name" | "rank">): NameSuffixIssue | undefined {
+  const expectedSuffix = RANK_SUFFIXES[taxon.rank]
+  if (!expectedSuffix) return undefined
+
+  const name = taxon.name.trim().split(/\s+/)[0]
+  const longestSuffix = KNOWN_SUFFIXES.find((suffix) => name.toLowerCase().endsWith(suffix))
+  if (longestSuffix === expectedSuffix) return undefined
+
+  const suggestion = suggestName(name, expectedSuffix)
+  return {
+    taxonId: taxon.id,
+    name,
+    rank: taxon.rank,
+    expectedSuffix,
+    suggestion,
+    message: `${taxon.rank} names should end in "-${expectedSuffix}"${
+      longestSuffix?.endsWith(expectedSuffix) ? `, not "-${longestSuffix}"` : ""
+    }; consider "${suggestion}".`,
+  }
+}
@@ -0,0 +1,58 @@
+import type { Taxon, TaxonRank } from "./model"
+
+/** The URL segment for a taxon: its name, lowercased and hyphenated (e.g. "chytridium-olla"). */
+export function taxonSlug(taxon: Pick<Taxon, "name">): string {
+  return taxon.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+/**
+ * The page of a taxon, addressed by the slugs of its lineage from the root,
+ * e.g. `/taxon/fungi/glomeromycota/glomeromycetes/glomerales`. Taxa of a
+ * version other than the default one are prefixed with the version id.
+ */
+export function taxonHref(lineage: Taxon[], versionId?: string): string {
+  return ["/taxon", ...(versionId ? [versionId] : []), ...lineage.map(taxonSlug)].join("/")
+}
+
+/** Follows lineage slugs down from the root; undefined when any step has no match. */
+export function findTaxonByPath(root: Taxon, slugs: string[]): Taxon | undefined {
+  if (slugs[0] !== taxonSlug(root)) return undefined
+  let taxon: Taxon | undefined = root
+  for (const slug of slugs.slice(1)) {
+    taxon = Object.values(taxon.children).find((child) => taxonSlug(child) === slug)
+    if (!taxon) return undefined
+  }
+  return taxon
+}
+
+/** A taxon with the address of its page, small enough to pass to client components. */
+export interface TaxonLink {
+  id: string
+  name: string
+  rank: TaxonRank
+  href: string
+}
+
+/** One step of a lineage, with the taxa sharing its parent (itself included) in tree order. */
+export interface LineageCrumb extends TaxonLink {
+  siblings: TaxonLink[]
+}
+
+/** The crumbs of a lineage from the root down; the root has no siblings. */
+export function lineageCrumbs(lineage: Taxon[], versionId?: string): LineageCrumb[] {
+  const link = (path: Taxon[]): TaxonLink => {
+    const taxon = path[path.length - 1]
+    return { id: taxon.id, name: taxon.name, rank: taxon.rank, href: taxonHref(path, versionId) }
+  }
+  return lineage.map((taxon, depth) => {
+    const ancestors = lineage.slice(0, depth)
+    const parent = ancestors[ancestors.length - 1]
+    return {
+      ...link([...ancestors, taxon]),
+      siblings: parent ? Object.values(parent.children).map((sibling) => link([...ancestors, sibling])) : [],
+    }
+  })
+}
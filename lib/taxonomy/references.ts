@@ -0,0 +1,123 @@
+import { z } from "zod"
+import type { ContentIssue, ContentSource } from "./content"
+import type { Taxon } from "./model"
+import { walkTaxa } from "./tree"
+
+export type ReferenceType = "article" | "book" | "chapter" | "webpage"
+
+/** An author of a work; organizations give only `family`. */
+export interface ReferenceAuthor {
+  family: string
+  given?: string
+}
+
+/** A bibliographic record, cited by taxa and by individual description statements. */
+export interface Reference {
+  /** Used to cite the work from content files, as the bibliography anchor and as the BibTeX key. */
+  id: string
+  type: ReferenceType
+  authors: ReferenceAuthor[]
+  /** True when `authors` lists only the first authors of a longer list. */
+  moreAuthors?: boolean
+  /** Publication date: "2007", "2007-05" or "2025-01-09". */
+  issued?: string
+  title: string
+  /** The journal, book or website the work appears in. */
+  container?: string
+  volume?: string
+  issue?: string
+  /** A page range such as "509–547". */
+  pages?: string
+  publisher?: string
+  /** DOI without the resolver prefix, e.g. "10.1016/j.mycres.2007.03.004". */
+  doi?: string
+  url?: string
+  /** Date an online work was consulted (YYYY-MM-DD). */
+  accessed?: string
+}
+
+/** One statement of a taxon's description, with the works it is cited to. */
+export interface DescriptionStatement {
+  text: string
+  references: Reference[]
+}
+
+// YAML reads `issued: 2007` and `volume: 111` as numbers.
+const textSchema = z.coerce.string().min(1)
+const dateSchema = z.coerce.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, "Expected YYYY, YYYY-MM or YYYY-MM-DD")
+
+export const referenceSchema: z.ZodType<Reference> = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and hyphens"),
+    type: z.enum(["article", "book", "chapter", "webpage"]),
+    authors: z.array(z.object({ family: z.string().min(1), given: z.string().min(1).optional() }).strict()).min(1),
+    moreAuthors: z.boolean().optional(),
+    issued: dateSchema.optional(),
+    title: z.string().min(1),
+    container: z.string().min(1).optional(),
+    volume: textSchema.optional(),
+    issue: textSchema.optional(),
+    pages: textSchema.optional(),
+    publisher: z.string().min(1).optional(),
+    doi: z.string().min(1).optional(),
+    url: z.string().url().optional(),
+    accessed: dateSchema.optional(),
+  })
+  .strict()
+
+export interface LoadedReferences {
+  references: Reference[]
+  issues: ContentIssue[]
+}
+
+/**
+ * Checks each source (one reference or a list of them) against
+ * {@link referenceSchema}. Invalid records and reused ids are reported in
+ * `issues` and skipped.
+ */
+export function buildReferences(sources: ContentSource[]): LoadedReferences {
+  const references: Reference[] = []
+  const issues: ContentIssue[] = []
+  const ids = new Set<string>()
+
+  for (const source of sources) {
+    const parsed = Array.isArray(source.data)
+      ? z.array(referenceSchema).safeParse(source.data)
+      : referenceSchema.safeParse(source.data)
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        issues.push({ file: source.file, message: `${issue.path.join(".") || "(file)"}: ${issue.message}` })
+      }
+      continue
+    }
+    for (const reference of Array.isArray(parsed.data) ? parsed.data : [parsed.data]) {
+      if (ids.has(reference.id)) {
+        issues.push({ file: source.file, message: `Reference id "${reference.id}" is used more than once.` })
+        continue
+      }
+      ids.add(reference.id)
+      references.push(reference)
+    }
+  }
+
+  return { references, issues }
+}
+
+/** Works a taxon cites, either as a whole or for one of its description statements. */
+export function referencesOf(taxon: Taxon): Reference[] {
+  const cited = [...(taxon.references ?? []), ...(taxon.statements ?? []).flatMap((statement) => statement.references)]
+  return cited.filter((reference, index) => cited.findIndex((other) => other.id === reference.id) === index)
+}
+
+/** Every work cited in a subtree, each listed once in the order first cited, with the taxa citing it. */
+export function collectReferences(root: Taxon): { reference: Reference; taxa: Taxon[] }[] {
+  const byId = new Map<string, { reference: Reference; taxa: Taxon[] }>()
+  walkTaxa(root, (taxon) => {
+    for (const reference of referencesOf(taxon)) {
+      const entry = byId.get(reference.id) ?? { reference, taxa: [] }
+      entry.taxa.push(taxon)
+      byId.set(reference.id, entry)
+    }
+  })
+  return Array.from(byId.values())
+}
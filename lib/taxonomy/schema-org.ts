@@ -0,0 +1,67 @@
+import { identifierUrls } from "./identifiers"
+import type { Taxon } from "./model"
+import { flattenTaxa } from "./tree"
+
+/** A reference to another taxon node in the graph. */
+interface TaxonReference {
+  "@type": "Taxon"
+  "@id": string
+  name: string
+}
+
+/** A schema.org `Taxon` node (https://schema.org/Taxon). */
+export interface SchemaOrgTaxon extends TaxonReference {
+  taxonRank: string
+  description?: string
+  parentTaxon?: TaxonReference
+  childTaxon?: TaxonReference[]
+  alternateName?: string[]
+  sameAs?: string[]
+}
+
+export interface SchemaOrgOptions {
+  /** Builds the `@id` of a taxon. Defaults to a fragment on the current page (`#order-chytridiales`). */
+  iri?: (taxon: Taxon) => string
+}
+
+const fragmentIri = (taxon: Taxon) => `#${taxon.id}`
+
+/**
+ * Describes a taxon as schema.org JSON-LD. `parent` is needed for
+ * `parentTaxon`, as taxa only record their parent's id. Synonyms and the
+ * basionym become alternate names; external database records become `sameAs`.
+ */
+export function toSchemaOrgTaxon(taxon: Taxon, parent?: Taxon, options: SchemaOrgOptions = {}): SchemaOrgTaxon {
+  const iri = options.iri ?? fragmentIri
+  const reference = (other: Taxon): TaxonReference => ({ "@type": "Taxon", "@id": iri(other), name: other.name })
+  const children = Object.values(taxon.children)
+  const alternateNames = Array.from(
+    new Set([...(taxon.basionym ? [taxon.basionym] : []), ...(taxon.synonyms ?? []).map((synonym) => synonym.name)])
+  )
+  const sameAs = identifierUrls(taxon)
+
+  return {
+    ...reference(taxon),
+    taxonRank: taxon.rank.toLowerCase(),
+    description: taxon.description,
+    parentTaxon: parent ? reference(parent) : undefined,
+    childTaxon: children.length > 0 ? children.map(reference) : undefined,
+    alternateName: alternateNames.length > 0 ? alternateNames : undefined,
+    sameAs: sameAs.length > 0 ? sameAs : undefined,
+  }
+}
+
+/** A JSON-LD document holding a `Taxon` node for a taxon and each of its descendants. */
+export function toSchemaOrgGraph(root: Taxon, options: SchemaOrgOptions = {}) {
+  const taxa = flattenTaxa(root)
+  const byId = new Map(taxa.map((taxon) => [taxon.id, taxon]))
+  return {
+    "@context": "https://schema.org",
+    "@graph": taxa.map((taxon) => toSchemaOrgTaxon(taxon, taxon.parentId ? byId.get(taxon.parentId) : undefined, options)),
+  }
+}
+
+/** Serializes JSON-LD for a `<script>` element, escaping `<` so the content cannot close the tag. */
+export function serializeJsonLd(document: object): string {
+  return JSON.stringify(document).replace(/</g, "\\u003c")
+}
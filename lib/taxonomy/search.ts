@@ -0,0 +1,413 @@
+import { isTaxonRank, rankIndex, type Taxon, type TaxonRank } from "./model"
+import { flattenTaxa, indexTaxa } from "./tree"
+
+/** The parts of a taxon searched, from most to least telling. */
+export type SearchField = "name" | "synonym" | "description" | "attribute"
+
+/** How much a match in each field counts towards a result's score. */
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 1,
+  synonym: 0.8,
+  description: 0.4,
+  attribute: 0.25,
+}
+
+/** One searchable text of a taxon. */
+export interface IndexedField {
+  type: SearchField
+  /** The attribute key, for attribute values. */
+  label?: string
+  text: string
+}
+
+/** One letter per {@link SearchField}, so documents list their fields compactly. */
+const FIELD_CODES: Record<SearchField, string> = {
+  name: "n",
+  synonym: "s",
+  description: "d",
+  attribute: "a",
+}
+
+const FIELDS_BY_CODE = Object.fromEntries(
+  Object.entries(FIELD_CODES).map(([field, code]) => [code, field as SearchField])
+) as Record<string, SearchField>
+
+export interface SearchDocument {
+  id: string
+  name: string
+  rank: TaxonRank
+  parentName?: string
+  /** The code of each of the taxon's {@link indexedFields}, in order; the texts stay in the tree. */
+  fields: string
+}
+
+/**
+ * A serializable inverted index over a classification. `terms` is the sorted
+ * vocabulary; `postings[i]` lists where `terms[i]` occurs as flattened
+ * (document, field) index pairs.
+ */
+export interface SearchIndex {
+  documents: SearchDocument[]
+  terms: string[]
+  postings: number[][]
+}
+
+/** The terms a query matched in one of a taxon's {@link indexedFields}. */
+export interface FieldMatch {
+  /** Position of the field in `indexedFields(taxon)`. */
+  field: number
+  type: SearchField
+  terms: string[]
+}
+
+/** Where a query matched within one field, as [start, end) character ranges of `text`. */
+export interface SearchHit {
+  field: SearchField
+  label?: string
+  text: string
+  ranges: [number, number][]
+}
+
+export interface SearchResult {
+  id: string
+  name: string
+  rank: TaxonRank
+  parentName?: string
+  score: number
+  /** Matched fields, most heavily weighted first; {@link searchHits} locates them in the taxon's text. */
+  matches: FieldMatch[]
+}
+
+export interface SearchOptions {
+  /** Only return taxa of these ranks; combined with any rank filters in the query. */
+  ranks?: TaxonRank[]
+  limit?: number
+}
+
+/** A run of text, marked when it is part of a match. */
+export interface TextFragment {
+  text: string
+  match: boolean
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu
+
+/** Lowercases a word and strips diacritics, so "Schüßler" is found by "schussler". */
+export function normalizeTerm(word: string): string {
+  return word
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/ß/g, "ss")
+    .toLowerCase()
+}
+
+function tokenize(text: string): { term: string; start: number; end: number }[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }))
+}
+
+function indexedFields(taxon: Taxon): IndexedField[] {
+  const fields: IndexedField[] = [{ type: "name", text: taxon.name.replace(/_/g, " ") }]
+  for (const name of [...(taxon.basionym ? [taxon.basionym] : []), ...(taxon.synonyms ?? []).map((synonym) => synonym.name)]) {
+    fields.push({ type: "synonym", text: name })
+  }
+  if (taxon.description) fields.push({ type: "description", text: taxon.description })
+  for (const [key, value] of Object.entries(taxon.attributes)) {
+    fields.push({ type: "attribute", label: key, text: Array.isArray(value) ? value.join(", ") : String(value) })
+  }
+  return fields
+}
+
+/**
+ * Builds the search index for a tree; served prebuilt from `/search-index/<version>`.
+ * Field texts are not copied into it: postings point at a taxon's fields, and
+ * {@link searchHits} reads the matched text from the taxon itself.
+ */
+export function buildSearchIndex(root: Taxon): SearchIndex {
+  const index = indexTaxa(root)
+  const documents: SearchDocument[] = []
+  const postingsByTerm = new Map<string, number[]>()
+
+  flattenTaxa(root).forEach((taxon, documentIndex) => {
+    const fields = indexedFields(taxon)
+    documents.push({
+      id: taxon.id,
+      name: taxon.name,
+      rank: taxon.rank,
+      parentName: taxon.parentId ? index.get(taxon.parentId)?.name : undefined,
+      fields: fields.map((field) => FIELD_CODES[field.type]).join(""),
+    })
+    fields.forEach((field, fieldIndex) => {
+      for (const { term } of tokenize(field.text)) {
+        const postings = postingsByTerm.get(term) ?? []
+        const last = postings.length - 2
+        if (postings[last] === documentIndex && postings[last + 1] === fieldIndex) continue
+        postings.push(documentIndex, fieldIndex)
+        postingsByTerm.set(term, postings)
+      }
+    })
+  })
+
+  const entries = Array.from(postingsByTerm).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return { documents, terms: entries.map(([term]) => term), postings: entries.map(([, postings]) => postings) }
+}
+
+/** Edits tolerated for a query word of the given length. */
+function maxEdits(length: number): number {
+  return length <= 3 ? 0 : length <= 6 ? 1 : 2
+}
+
+/** Optimal string alignment distance, or `limit + 1` once it is certain to exceed `limit`. */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow
+    previousRow = row
+    row = [i]
+    let rowMinimum = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+      row[j] = value
+      rowMinimum = Math.min(rowMinimum, value)
+    }
+    if (rowMinimum > limit) return limit + 1
+  }
+  return row[b.length]
+}
+
+/**
+ * How well a vocabulary term matches a query word, from 1 (identical) down,
+ * or 0 for no match. Prefixes count so results appear while typing, and
+ * misspellings are tolerated in proportion to the word's length.
+ */
+function termQuality(word: string, term: string): number {
+  if (term === word) return 1
+  if (word.length >= 2 && term.startsWith(word)) return 0.8
+  const limit = maxEdits(word.length)
+  if (limit === 0) return 0
+  const distance = editDistance(word, term, limit)
+  if (distance <= limit) return 0.7 - 0.15 * (distance - 1)
+  if (term.length > word.length) {
+    // A misspelled prefix of a longer word, e.g. "neocalim" for "neocallimastigomycota".
+    for (let length = word.length - 1; length <= word.length + 1; length++) {
+      if (editDistance(word, term.slice(0, length), limit) <= limit) return 0.4
+    }
+  }
+  return 0
+}
+
+/** The first position in sorted `terms` at which `word` could be inserted. */
+function lowerBound(terms: string[], word: string): number {
+  let low = 0
+  let high = terms.length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (terms[middle] < word) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+/** Distinct bigrams of a term, with a start marker so short words still have a few. */
+function bigrams(term: string): Set<string> {
+  const padded = `^${term}`
+  const grams = new Set<string>()
+  for (let i = 0; i < padded.length - 1; i++) grams.add(padded.slice(i, i + 2))
+  return grams
+}
+
+// Bigram → term positions, built once per loaded index; only the client's queries need it.
+const bigramLookups = new WeakMap<SearchIndex, Map<string, number[]>>()
+
+function bigramLookup(index: SearchIndex): Map<string, number[]> {
+  let lookup = bigramLookups.get(index)
+  if (!lookup) {
+    lookup = new Map()
+    for (const [termIndex, term] of index.terms.entries()) {
+      for (const gram of bigrams(term)) {
+        const termIndexes = lookup.get(gram)
+        if (termIndexes) termIndexes.push(termIndex)
+        else lookup.set(gram, [termIndex])
+      }
+    }
+    bigramLookups.set(index, lookup)
+  }
+  return lookup
+}
+
+/**
+ * Terms that {@link termQuality} might match to a query word, so the edit
+ * distance is only computed for those. Exact and prefix matches are one run of
+ * the sorted vocabulary. A misspelling changes at most three of a word's
+ * bigrams per edit (a transposition touches three), so a term within `limit`
+ * edits of the word, or with a prefix that is, shares all its other bigrams.
+ */
+function candidateTerms(index: SearchIndex, word: string): Iterable<number> {
+  const candidates = new Set<number>()
+  for (let i = lowerBound(index.terms, word); i < index.terms.length && index.terms[i].startsWith(word); i++) {
+    candidates.add(i)
+  }
+  const limit = maxEdits(word.length)
+  if (limit === 0) return candidates
+
+  const grams = bigrams(word)
+  const required = grams.size - 3 * limit
+  // Words made of repeated bigrams (e.g. "anana") have too few to filter on.
+  if (required <= 0) return index.terms.keys()
+  const lookup = bigramLookup(index)
+  const shared = new Map<number, number>()
+  for (const gram of grams) {
+    for (const termIndex of lookup.get(gram) ?? []) shared.set(termIndex, (shared.get(termIndex) ?? 0) + 1)
+  }
+  for (const [termIndex, count] of shared) if (count >= required) candidates.add(termIndex)
+  return candidates
+}
+
+/**
+ * Splits rank filters from the words of a query: `rank:genus`, or a bare word
+ * that is the whole name of a rank ("genus", "Order").
+ */
+export function parseSearchQuery(query: string): { words: string[]; ranks: TaxonRank[] } {
+  const words: string[] = []
+  const ranks: TaxonRank[] = []
+  for (const part of query.trim().split(/\s+/).filter(Boolean)) {
+    const rankFilter = /^(?:rank:)?(\w+)$/i.exec(part)
+    const rank = rankFilter && rankFilter[1].charAt(0).toUpperCase() + rankFilter[1].slice(1).toLowerCase()
+    if (rank && isTaxonRank(rank)) {
+      ranks.push(rank)
+    } else {
+      words.push(...tokenize(part).map((token) => token.term))
+    }
+  }
+  return { words, ranks }
+}
+
+/**
+ * Ranks taxa against a query. Every word of the query must match some field of
+ * a taxon, exactly, as a prefix or within a few typos; a taxon scores the sum
+ * of its best weighted match per word, with a bonus when its name is the whole
+ * query. Ties are broken by rank, then name.
+ */
+export function searchTaxa(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+  const { words, ranks: queryRanks } = parseSearchQuery(query)
+  const ranks = [...(options.ranks ?? []), ...queryRanks]
+  const rankAllowed = (rank: TaxonRank) => ranks.length === 0 || ranks.includes(rank)
+  if (words.length === 0 && ranks.length === 0) return []
+
+  // Per document: the best score for each query word, and the matched terms per field.
+  const scores = new Map<number, number[]>()
+  const matchedTerms = new Map<number, Map<number, Set<string>>>()
+
+  words.forEach((word, wordIndex) => {
+    for (const termIndex of candidateTerms(index, word)) {
+      const term = index.terms[termIndex]
+      const quality = termQuality(word, term)
+      if (quality === 0) continue
+      const postings = index.postings[termIndex]
+      for (let i = 0; i < postings.length; i += 2) {
+        const [documentIndex, fieldIndex] = [postings[i], postings[i + 1]]
+        const document = index.documents[documentIndex]
+        if (!rankAllowed(document.rank)) continue
+        const score = quality * FIELD_WEIGHTS[FIELDS_BY_CODE[document.fields[fieldIndex]]]
+        const wordScores = scores.get(documentIndex) ?? new Array<number>(words.length).fill(0)
+        wordScores[wordIndex] = Math.max(wordScores[wordIndex], score)
+        scores.set(documentIndex, wordScores)
+        const fields = matchedTerms.get(documentIndex) ?? new Map<number, Set<string>>()
+        fields.set(fieldIndex, (fields.get(fieldIndex) ?? new Set()).add(term))
+        matchedTerms.set(documentIndex, fields)
+      }
+    }
+  })
+
+  const candidates =
+    words.length === 0
+      ? index.documents.flatMap((document, documentIndex) => (rankAllowed(document.rank) ? [documentIndex] : []))
+      : Array.from(scores.entries())
+          .filter(([, wordScores]) => wordScores.every((score) => score > 0))
+          .map(([documentIndex]) => documentIndex)
+
+  const phrase = words.join(" ")
+  const results = candidates.map((documentIndex): SearchResult => {
+    const document = index.documents[documentIndex]
+    const wordScores = scores.get(documentIndex) ?? []
+    const exactName = tokenize(document.name.replace(/_/g, " ")).map((token) => token.term).join(" ") === phrase
+    const matches = Array.from(matchedTerms.get(documentIndex) ?? [])
+      .map(([fieldIndex, terms]): FieldMatch => ({
+        field: fieldIndex,
+        type: FIELDS_BY_CODE[document.fields[fieldIndex]],
+        terms: Array.from(terms),
+      }))
+      .sort((a, b) => FIELD_WEIGHTS[b.type] - FIELD_WEIGHTS[a.type])
+    return {
+      id: document.id,
+      name: document.name,
+      rank: document.rank,
+      parentName: document.parentName,
+      score: wordScores.reduce((total, score) => total + score, 0) + (exactName ? 1 : 0),
+      matches,
+    }
+  })
+
+  results.sort(
+    (a, b) => b.score - a.score || rankIndex(a.rank) - rankIndex(b.rank) || a.name.localeCompare(b.name)
+  )
+  return options.limit === undefined ? results : results.slice(0, options.limit)
+}
+
+/**
+ * Locates a result's matches in the text of its taxon, which must come from the
+ * tree the index was built from.
+ */
+export function searchHits(taxon: Taxon, result: SearchResult): SearchHit[] {
+  const fields = indexedFields(taxon)
+  return result.matches.flatMap((match) => {
+    const field = fields[match.field]
+    if (!field) return []
+    const ranges = tokenize(field.text)
+      .filter((token) => match.terms.includes(token.term))
+      .map((token): [number, number] => [token.start, token.end])
+    return [{ field: field.type, label: field.label, text: field.text, ranges }]
+  })
+}
+
+/**
+ * Splits a hit's text into matched and unmatched runs. With `context`, long
+ * text is cut to that many characters either side of the first match.
+ */
+export function highlightHit(hit: SearchHit, context?: number): TextFragment[] {
+  let { text } = hit
+  let offset = 0
+  let prefix = ""
+  let suffix = ""
+  if (context !== undefined && hit.ranges.length > 0) {
+    const start = Math.max(0, hit.ranges[0][0] - context)
+    const end = Math.min(text.length, hit.ranges[0][1] + context)
+    if (start > 0) prefix = "…"
+    if (end < text.length) suffix = "…"
+    offset = start
+    text = text.slice(start, end)
+  }
+
+  const fragments: TextFragment[] = prefix ? [{ text: prefix, match: false }] : []
+  let cursor = 0
+  for (const [rangeStart, rangeEnd] of hit.ranges) {
+    const start = rangeStart - offset
+    const end = Math.min(rangeEnd - offset, text.length)
+    if (start < cursor || start >= text.length) continue
+    if (start > cursor) fragments.push({ text: text.slice(cursor, start), match: false })
+    fragments.push({ text: text.slice(start, end), match: true })
+    cursor = end
+  }
+  if (cursor < text.length) fragments.push({ text: text.slice(cursor), match: false })
+  if (suffix) fragments.push({ text: suffix, match: false })
+  return fragments
+}
@@ -0,0 +1,186 @@
+import type { ClassificationVersion } from "./dataset"
+import { identifierUrls } from "./identifiers"
+import { RANK_ORDER, type Taxon, type TaxonRank } from "./model"
+import { flattenTaxa } from "./tree"
+
+/** A literal, with a language tag for natural-language text. */
+interface RdfLiteral {
+  value: string
+  language?: string
+}
+
+/** An IRI, either absolute or a prefixed name such as `skos:Concept`. */
+interface RdfResource {
+  iri: string
+}
+
+type RdfObject = RdfLiteral | RdfResource
+
+interface RdfNode {
+  subject: string
+  types: string[]
+  properties: [predicate: string, object: RdfObject][]
+}
+
+interface SkosGraph {
+  prefixes: Record<string, string>
+  nodes: RdfNode[]
+}
+
+const isResource = (object: RdfObject): object is RdfResource => "iri" in object
+
+/** The classification version a SKOS export describes. */
+type SkosVersion = Pick<ClassificationVersion, "id" | "metadata">
+
+/**
+ * IRI of a taxon's concept: `<homepage>/taxon/<version>/<taxon id>`, e.g.
+ * `.../taxon/hibbett-2007/order-chytridiales`, which redirects to the taxon's page.
+ * Each version mints its own, since versions place the same taxon differently.
+ */
+export function conceptIri(version: SkosVersion, taxon: Pick<Taxon, "id">): string {
+  return `${version.metadata.homepage}/taxon/${version.id}/${taxon.id}`
+}
+
+/** IRI of a version's concept scheme: its home page, `<homepage>/?version=<version>`. */
+export function schemeIri(version: SkosVersion): string {
+  return `${version.metadata.homepage}/?version=${version.id}`
+}
+
+function rankTerm(rank: TaxonRank): string {
+  return `ft:${rank}`
+}
+
+/**
+ * Describes the classification as a SKOS concept scheme: one concept per taxon
+ * linked by broader/narrower, names as labels (synonyms and the basionym as
+ * alternative labels), descriptions as definitions and external database
+ * records as exact matches. Ranks are individuals of a small `ft:TaxonRank`
+ * class, referenced through the `ft:rank` object property.
+ */
+function buildSkosGraph(root: Taxon, version: SkosVersion): SkosGraph {
+  const { metadata } = version
+  const language = metadata.language
+  const scheme = schemeIri(version)
+  const concept = (taxon: Taxon) => `tx:${taxon.id}`
+
+  const vocabulary: RdfNode[] = [
+    {
+      subject: "ft:TaxonRank",
+      types: ["owl:Class"],
+      properties: [["rdfs:label", { value: "Taxonomic rank", language: "en" }]],
+    },
+    {
+      subject: "ft:rank",
+      types: ["owl:ObjectProperty"],
+      properties: [
+        ["rdfs:label", { value: "rank", language: "en" }],
+        ["rdfs:domain", { iri: "skos:Concept" }],
+        ["rdfs:range", { iri: "ft:TaxonRank" }],
+      ],
+    },
+    ...RANK_ORDER.map((rank): RdfNode => ({
+      subject: rankTerm(rank),
+      types: ["ft:TaxonRank"],
+      properties: [["rdfs:label", { value: rank, language: "en" }]],
+    })),
+  ]
+
+  const schemeNode: RdfNode = {
+    subject: scheme,
+    types: ["skos:ConceptScheme"],
+    properties: [
+      ["skos:prefLabel", { value: metadata.title, language }],
+      ["skos:definition", { value: metadata.description, language }],
+      ["skos:hasTopConcept", { iri: concept(root) }],
+    ],
+  }
+
+  const concepts = flattenTaxa(root).map((taxon): RdfNode => {
+    const properties: RdfNode["properties"] = [
+      ["skos:inScheme", { iri: scheme }],
+      ["skos:prefLabel", { value: taxon.name }],
+      ["skos:notation", { value: taxon.id }],
+      ["ft:rank", { iri: rankTerm(taxon.rank) }],
+    ]
+    const altLabels = new Set([
+      ...(taxon.basionym ? [taxon.basionym] : []),
+      ...(taxon.synonyms ?? []).map((synonym) => synonym.name),
+    ])
+    altLabels.forEach((label) => properties.push(["skos:altLabel", { value: label }]))
+    if (taxon.description) properties.push(["skos:definition", { value: taxon.description, language }])
+    if (taxon.id === root.id) {
+      properties.push(["skos:topConceptOf", { iri: scheme }])
+    } else if (taxon.parentId) {
+      properties.push(["skos:broader", { iri: `tx:${taxon.parentId}` }])
+    }
+    Object.values(taxon.children).forEach((child) => properties.push(["skos:narrower", { iri: concept(child) }]))
+    identifierUrls(taxon).forEach((url) => properties.push(["skos:exactMatch", { iri: url }]))
+    return { subject: concept(taxon), types: ["skos:Concept"], properties }
+  })
+
+  return {
+    prefixes: {
+      skos: "http://www.w3.org/2004/02/skos/core#",
+      rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+      owl: "http://www.w3.org/2002/07/owl#",
+      ft: `${metadata.homepage}/ontology#`,
+      tx: conceptIri(version, { id: "" }),
+    },
+    nodes: [schemeNode, ...concepts, ...vocabulary],
+  }
+}
+
+function turtleLiteral(literal: RdfLiteral): string {
+  const escaped = literal.value.replace(/[\\"\n\r\t]/g, (character) =>
+    character === "\n" ? "\\n" : character === "\r" ? "\\r" : character === "\t" ? "\\t" : `\\${character}`
+  )
+  return `"${escaped}"${literal.language ? `@${literal.language}` : ""}`
+}
+
+/** Writes a prefixed name as is when its local part is safe in Turtle, otherwise as a full `<IRI>`. */
+function turtleTerm(iri: string, prefixes: Record<string, string>): string {
+  const separator = iri.indexOf(":")
+  const prefix = iri.slice(0, separator)
+  const local = iri.slice(separator + 1)
+  if (!(prefix in prefixes)) return `<${iri}>`
+  return /^[A-Za-z0-9_-]*$/.test(local) ? iri : `<${prefixes[prefix]}${encodeURI(local)}>`
+}
+
+/** Serializes the classification as SKOS in Turtle; see {@link buildSkosGraph} for the modelling. */
+export function toSkosTurtle(root: Taxon, version: SkosVersion): string {
+  const { prefixes, nodes } = buildSkosGraph(root, version)
+  const lines = Object.entries(prefixes).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`)
+  for (const node of nodes) {
+    const statements = [
+      `a ${node.types.map((type) => turtleTerm(type, prefixes)).join(", ")}`,
+      ...node.properties.map(
+        ([predicate, object]) =>
+          `${predicate} ${isResource(object) ? turtleTerm(object.iri, prefixes) : turtleLiteral(object)}`
+      ),
+    ]
+    lines.push("", `${turtleTerm(node.subject, prefixes)}\n  ${statements.join(" ;\n  ")} .`)
+  }
+  return `${lines.join("\n")}\n`
+}
+
+/** Serializes the classification as SKOS in JSON-LD, using the same prefixes as the Turtle output as its context. */
+export function toSkosJsonLd(root: Taxon, version: SkosVersion): string {
+  const { prefixes, nodes } = buildSkosGraph(root, version)
+  const graph = nodes.map((node) => {
+    const entry: Record<string, unknown> = {
+      "@id": node.subject,
+      "@type": node.types.length === 1 ? node.types[0] : node.types,
+    }
+    for (const [predicate, object] of node.properties) {
+      const value = isResource(object)
+        ? { "@id": object.iri }
+        : object.language
+          ? { "@value": object.value, "@language": object.language }
+          : object.value
+      const existing = entry[predicate]
+      entry[predicate] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value]
+    }
+    return entry
+  })
+  return `${JSON.stringify({ "@context": prefixes, "@graph": graph }, null, 2)}\n`
+}
@@ -0,0 +1,49 @@
+import type { Synonym, Taxon } from "./model"
+import { flattenTaxa } from "./tree"
+
+export interface NameMatch {
+  /** The accepted taxon the query resolved to. */
+  taxon: Taxon
+  /** The accepted name or synonym that matched. */
+  matchedName: string
+  /** Set when the match came through a synonym rather than the accepted name. */
+  synonym?: Synonym
+}
+
+const normalize = (name: string) => name.trim().toLowerCase()
+
+function collectMatches(root: Taxon, matches: (name: string) => boolean): NameMatch[] {
+  const accepted: NameMatch[] = []
+  const viaSynonym: NameMatch[] = []
+
+  for (const taxon of flattenTaxa(root)) {
+    if (matches(normalize(taxon.name))) {
+      accepted.push({ taxon, matchedName: taxon.name })
+      continue
+    }
+    const synonym = taxon.synonyms?.find((candidate) => matches(normalize(candidate.name)))
+    if (synonym) {
+      viaSynonym.push({ taxon, matchedName: synonym.name, synonym })
+    }
+  }
+
+  return [...accepted, ...viaSynonym]
+}
+
+/**
+ * Resolves a name to accepted taxa, case-insensitively. An accepted name
+ * resolves to its own taxon; a synonym resolves to the taxon (or, for pro parte
+ * synonyms, every taxon) that carries it. Accepted-name matches come first.
+ */
+export function resolveName(root: Taxon, name: string): NameMatch[] {
+  const query = normalize(name)
+  if (!query) return []
+  return collectMatches(root, (candidate) => candidate === query)
+}
+
+/** Like {@link resolveName}, but matches any accepted name or synonym containing `query`. */
+export function searchNames(root: Taxon, query: string): NameMatch[] {
+  const needle = normalize(query)
+  if (!needle) return []
+  return collectMatches(root, (candidate) => candidate.includes(needle))
+}
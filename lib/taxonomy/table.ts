@@ -0,0 +1,294 @@
+import { TaxonomyContentError, buildTaxonomy, type ContentSource, type TaxonRecord } from "./content"
+import { formatDelimited, parseDelimited } from "./csv"
+import { isTaxonRank, type Taxon, type TaxonRank, type TaxonAttributeValue, type TaxonAttributes } from "./model"
+import { epithetFromName } from "./names"
+import { flattenTaxa } from "./tree"
+
+/** The fixed leading columns of a taxonomy table; every other column holds one attribute. */
+export const TABLE_COLUMNS = ["id", "parent", "rank", "name", "description", "blockedAttributes"] as const
+
+/** Fixed columns an imported table may leave out. */
+const OPTIONAL_COLUMNS: readonly string[] = ["description", "blockedAttributes"]
+
+/** Separates the items of a list-valued attribute within one cell. */
+const LIST_SEPARATOR = " | "
+
+/** How an attribute column's cells are read back, given by a `:type` suffix on its header. */
+type AttributeColumnType = "text" | "number" | "boolean" | "list"
+
+const ATTRIBUTE_COLUMN_TYPES: readonly AttributeColumnType[] = ["text", "number", "boolean", "list"]
+
+interface AttributeColumn {
+  key: string
+  type: AttributeColumnType
+}
+
+function attributeColumnType(value: TaxonAttributeValue): AttributeColumnType {
+  if (Array.isArray(value)) return "list"
+  if (typeof value === "number") return "number"
+  if (typeof value === "boolean") return "boolean"
+  return "text"
+}
+
+/** Splits a header such as "hydrogenosomes:boolean"; a header without a known suffix is a text column. */
+function parseAttributeHeader(header: string): AttributeColumn {
+  const separator = header.lastIndexOf(":")
+  const type = header.slice(separator + 1) as AttributeColumnType
+  return separator > 0 && ATTRIBUTE_COLUMN_TYPES.includes(type)
+    ? { key: header.slice(0, separator), type }
+    : { key: header, type: "text" }
+}
+
+/** Text columns are left bare, unless the key itself ends like a type suffix. */
+function attributeHeader({ key, type }: AttributeColumn): string {
+  if (type === "text" && parseAttributeHeader(key).key === key) return key
+  return `${key}:${type}`
+}
+
+function formatAttributeValue(value: TaxonAttributeValue): string {
+  return Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value)
+}
+
+/** Reads a cell back as its column's type; undefined when it is not a value of that type. */
+function parseAttributeValue(cell: string, type: AttributeColumnType): TaxonAttributeValue | undefined {
+  switch (type) {
+    case "number":
+      return /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(cell) ? Number(cell) : undefined
+    case "boolean":
+      return cell === "true" || cell === "false" ? cell === "true" : undefined
+    case "list":
+      return cell.split(LIST_SEPARATOR).map((item) => item.trim())
+    case "text":
+      return cell
+  }
+}
+
+/**
+ * Flattens a taxon and its descendants into rows, parents before children:
+ * a header row, then one row per taxon with its own (not inherited)
+ * attributes. Auto-derived genera are left out: they are not content, and are
+ * derived again from the descriptions when the data loads. Attribute columns
+ * follow the fixed ones in alphabetical order, their headers suffixed with the
+ * values' type (`size:number`, `hydrogenosomes:boolean`, `hosts:list`; text
+ * columns have none) so the table imports back unchanged. A key holding values of several types gets a
+ * column per type. `blockedAttributes` lists the keys a taxon does not
+ * inherit, separated like a list. Authorship, synonyms and placement are not
+ * included.
+ */
+export function toTaxonomyTable(root: Taxon): string[][] {
+  const taxa = flattenTaxa(root).filter((taxon) => !taxon.autoDerived)
+  const headers = new Set(
+    taxa.flatMap((taxon) =>
+      Object.entries(taxon.attributes).map(([key, value]) => attributeHeader({ key, type: attributeColumnType(value) }))
+    )
+  )
+  const attributeColumns = Array.from(headers)
+    .sort()
+    .map((header) => ({ header, ...parseAttributeHeader(header) }))
+  return [
+    [...TABLE_COLUMNS, ...attributeColumns.map((column) => column.header)],
+    ...taxa.map((taxon) => [
+      taxon.id,
+      taxon.id === root.id ? "" : taxon.parentId ?? "",
+      taxon.rank,
+      taxon.name,
+      taxon.description ?? "",
+      formatAttributeValue(taxon.blockedAttributes ?? []),
+      ...attributeColumns.map(({ key, type }) => {
+        const value = taxon.attributes[key]
+        return value !== undefined && attributeColumnType(value) === type ? formatAttributeValue(value) : ""
+      }),
+    ]),
+  ]
+}
+
+/** Writes {@link toTaxonomyTable} as CSV, or as TSV with a tab delimiter. */
+export function formatTaxonomyTable(root: Taxon, delimiter = ","): string {
+  return formatDelimited(toTaxonomyTable(root), delimiter)
+}
+
+export interface TableRowError {
+  /** 1-based row number; the header is row 1. */
+  row: number
+  id?: string
+  message: string
+}
+
+export interface TableImportResult {
+  /** Undefined when no usable root row was found. */
+  root?: Taxon
+  /** Rows that were skipped, and why. Rows below a skipped row are skipped too. */
+  errors: TableRowError[]
+}
+
+interface TableRow {
+  row: number
+  id: string
+  parent: string
+  rank: string
+  name: string
+  description: string
+  blockedAttributes: string[]
+  attributes: TaxonAttributes
+  /** Cells that could not be read as their column's type. */
+  cellErrors: string[]
+}
+
+/**
+ * Builds a taxon tree from table rows as written by {@link toTaxonomyTable}
+ * (a header row naming at least id, parent, rank and name). Rows may come in
+ * any order. Attribute cells are read as the type their header names, and
+ * text when it names none. Rows with an unknown rank, a missing name, a
+ * duplicate id, a cell that is not of its column's type, an attribute given in
+ * two columns, a parent that is not in the table or a parent chain that loops
+ * are reported
+ * and skipped along with their descendants; the rest are linked by
+ * {@link buildTaxonomy}.
+ */
+export function tableToTaxonomy(table: string[][]): TableImportResult {
+  const errors: TableRowError[] = []
+  const [header = [], ...body] = table
+  const columns = header.map((column) => column.trim())
+
+  const missing = TABLE_COLUMNS.filter((column) => !OPTIONAL_COLUMNS.includes(column) && !columns.includes(column))
+  if (missing.length > 0) {
+    return { errors: [{ row: 1, message: `Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}.` }] }
+  }
+
+  const rows: TableRow[] = body.map((cells, index) => {
+    const cell = (column: string) => (cells[columns.indexOf(column)] ?? "").trim()
+    const attributes: TaxonAttributes = {}
+    const cellErrors: string[] = []
+    columns.forEach((column, columnIndex) => {
+      const text = (cells[columnIndex] ?? "").trim()
+      if ((TABLE_COLUMNS as readonly string[]).includes(column) || column === "" || text === "") return
+      const { key, type } = parseAttributeHeader(column)
+      const value = parseAttributeValue(text, type)
+      if (value === undefined) {
+        cellErrors.push(`"${text}" in column "${column}" is not ${type === "number" ? "a number" : "true or false"}.`)
+      } else if (key in attributes) {
+        cellErrors.push(`Attribute "${key}" has values in more than one column.`)
+      } else {
+        attributes[key] = value
+      }
+    })
+    const blocked = cell("blockedAttributes")
+    return {
+      row: index + 2,
+      id: cell("id"),
+      parent: cell("parent"),
+      rank: cell("rank"),
+      name: cell("name"),
+      description: cell("description"),
+      blockedAttributes: blocked ? blocked.split(LIST_SEPARATOR).map((key) => key.trim()) : [],
+      attributes,
+      cellErrors,
+    }
+  })
+
+  const accepted = new Map<string, TableRow>()
+  const reject = (row: TableRow, message: string) => errors.push({ row: row.row, id: row.id || undefined, message })
+
+  for (const row of rows) {
+    if (!row.id) reject(row, "The id is empty.")
+    else if (accepted.has(row.id)) reject(row, `Duplicate id "${row.id}" (first used on row ${accepted.get(row.id)?.row}).`)
+    else if (!isTaxonRank(row.rank)) reject(row, `Unknown rank "${row.rank}".`)
+    else if (row.cellErrors.length > 0) reject(row, row.cellErrors.join(" "))
+    else if (!row.name) reject(row, "The name is empty.")
+    else accepted.set(row.id, row)
+  }
+
+  const roots = Array.from(accepted.values()).filter((row) => row.parent === "")
+  if (roots.length === 0) {
+    errors.push({ row: 1, message: "No row without a parent: one row must be the root." })
+    return { errors: errors.sort((a, b) => a.row - b.row) }
+  }
+  for (const extra of roots.slice(1)) {
+    reject(extra, `Second root row (row ${roots[0].row} has no parent either).`)
+    accepted.delete(extra.id)
+  }
+
+  // Drop rows whose parent is missing or was itself dropped, until nothing changes.
+  const rowsById = new Map(rows.map((row) => [row.id, row]))
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const row of Array.from(accepted.values())) {
+      if (row.parent === "" || accepted.has(row.parent)) continue
+      const parentRow = rowsById.get(row.parent)
+      reject(
+        row,
+        parentRow
+          ? `Parent "${row.parent}" (row ${parentRow.row}) was skipped.`
+          : `Parent "${row.parent}" is not in the table.`
+      )
+      accepted.delete(row.id)
+      changed = true
+    }
+  }
+
+  // Every parent now exists, so a row that cannot reach the root is on a loop or below one.
+  const reachesRoot = new Set([roots[0].id])
+  for (const row of Array.from(accepted.values())) {
+    if (!accepted.has(row.id)) continue
+    const chain: TableRow[] = []
+    let current: TableRow | undefined = row
+    while (current && !reachesRoot.has(current.id) && !chain.includes(current)) {
+      chain.push(current)
+      current = accepted.get(current.parent)
+    }
+    if (current && reachesRoot.has(current.id)) {
+      chain.forEach((link) => reachesRoot.add(link.id))
+      continue
+    }
+    const loop = current ? chain.slice(chain.indexOf(current)) : []
+    for (const link of chain) {
+      reject(
+        link,
+        loop.includes(link)
+          ? `Parent chain loops back on itself (${[...loop, loop[0]].map((entry) => entry.id).join(" → ")}).`
+          : `Parent "${link.parent}" (row ${rowsById.get(link.parent)?.row}) was skipped.`
+      )
+      accepted.delete(link.id)
+    }
+  }
+
+  const rowByLabel = new Map<string, TableRow>()
+  const sources: ContentSource[] = Array.from(accepted.values()).map((row) => {
+    const parentRow = accepted.get(row.parent)
+    const rank = row.rank as TaxonRank
+    const epithet = parentRow
+      ? epithetFromName(row.name, rank, { name: parentRow.name, rank: parentRow.rank as TaxonRank })
+      : undefined
+    const record: TaxonRecord = {
+      id: row.id,
+      ...(epithet ? { epithet } : { name: row.name }),
+      rank,
+      parent: row.parent || undefined,
+      description: row.description || undefined,
+      attributes: row.attributes,
+      blockedAttributes: row.blockedAttributes.length > 0 ? row.blockedAttributes : undefined,
+    }
+    const label = `row ${row.row}`
+    rowByLabel.set(label, row)
+    return { file: label, data: record }
+  })
+
+  try {
+    const { root, issues } = buildTaxonomy(sources)
+    for (const issue of issues) {
+      const row = rowByLabel.get(issue.file)
+      errors.push({ row: row?.row ?? 1, id: row?.id, message: issue.message })
+    }
+    return { root, errors: errors.sort((a, b) => a.row - b.row) }
+  } catch (error) {
+    if (!(error instanceof TaxonomyContentError)) throw error
+    errors.push({ row: roots[0].row, id: roots[0].id, message: error.message })
+    return { errors: errors.sort((a, b) => a.row - b.row) }
+  }
+}
+
+/** Parses CSV (or TSV, with a tab delimiter) text and builds a tree; see {@link tableToTaxonomy}. */
+export function parseTaxonomyTable(text: string, delimiter = ","): TableImportResult {
+  return tableToTaxonomy(parseDelimited(text, delimiter))
+}
@@ -0,0 +1,55 @@
+import type { Taxon } from "./model"
+
+/** Visits every taxon in the tree depth-first, parents before children. */
+export function walkTaxa(root: Taxon, visit: (taxon: Taxon, depth: number) => void, depth = 0) {
+  visit(root, depth)
+  for (const child of Object.values(root.children)) {
+    walkTaxa(child, visit, depth + 1)
+  }
+}
+
+/** Flattens the tree into a list in depth-first order. */
+export function flattenTaxa(root: Taxon): Taxon[] {
+  const taxa: Taxon[] = []
+  walkTaxa(root, (taxon) => taxa.push(taxon))
+  return taxa
+}
+
+/** Indexes every taxon in the tree by id. */
+export function indexTaxa(root: Taxon): Map<string, Taxon> {
+  const index = new Map<string, Taxon>()
+  walkTaxa(root, (taxon) => index.set(taxon.id, taxon))
+  return index
+}
+
+/**
+ * Returns the lineage of a taxon, from the root down to and including the taxon
+ * itself, by following `parentId` references through the index.
+ */
+export function getLineage(index: Map<string, Taxon>, taxon: Taxon): Taxon[] {
+  const lineage = [taxon]
+  const seen = new Set([taxon.id])
+  let parentId = taxon.parentId
+  while (parentId) {
+    const parent = index.get(parentId)
+    if (!parent || seen.has(parent.id)) break
+    lineage.unshift(parent)
+    seen.add(parent.id)
+    parentId = parent.parentId
+  }
+  return lineage
+}
+
+/**
+ * Returns a pruned copy of the tree containing the taxa that match `predicate`
+ * together with their ancestors, or undefined when nothing matches.
+ */
+export function filterTaxa(root: Taxon, predicate: (taxon: Taxon) => boolean): Taxon | undefined {
+  const children: Record<string, Taxon> = {}
+  for (const [key, child] of Object.entries(root.children)) {
+    const filtered = filterTaxa(child, predicate)
+    if (filtered) children[key] = filtered
+  }
+  if (!predicate(root) && Object.keys(children).length === 0) return undefined
+  return { ...root, children }
+}
@@ -0,0 +1,171 @@
+import { PRINCIPAL_RANKS, PlacementStatus, RANK_ORDER, TaxonRank, compareRanks, rankIndex, type Taxon } from "./model"
+import { checkNameSuffix } from "./nomenclature"
+
+export type ValidationSeverity = "error" | "warning"
+
+export type ValidationIssueCode =
+  | "rank-order"
+  | "rank-gap"
+  | "duplicate-id"
+  | "duplicate-name"
+  | "key-mismatch"
+  | "parent-mismatch"
+  | "cycle"
+  | "unreachable"
+  | "name-suffix"
+
+export interface ValidationIssue {
+  code: ValidationIssueCode
+  severity: ValidationSeverity
+  message: string
+  taxonId: string
+  /** Names from the root down to the offending taxon. */
+  path: string[]
+  /** A proposed fix, where one can be derived. */
+  suggestion?: string
+}
+
+export interface ValidationReport {
+  valid: boolean
+  issues: ValidationIssue[]
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+export interface ValidationOptions {
+  /**
+   * Every frame the dataset defines, linked or not. When provided, frames that
+   * cannot be reached from the root are reported.
+   */
+  frames?: readonly Taxon[]
+}
+
+function skippedPrincipalRanks(parent: TaxonRank, child: TaxonRank): TaxonRank[] {
+  return RANK_ORDER.slice(rankIndex(parent) + 1, rankIndex(child)).filter((rank) => PRINCIPAL_RANKS.includes(rank))
+}
+
+/**
+ * Checks a taxonomy tree for structural problems: children ranked at or above
+ * their parent, skipped principal ranks, duplicate ids and names, `children`
+ * keys that disagree with the child's name, stale parent references, cycles
+ * and (given the full frame list) frames that are never linked into the tree.
+ * Names that do not carry the ending expected for their rank are reported as
+ * warnings (see `checkNameSuffix`).
+ *
+ * Skipping a single principal rank (e.g. a genus placed directly in an order)
+ * is only a warning, as partial classifications routinely do so; skipping more
+ * than one is an error. Taxa placed incertae sedis are exempt, since being
+ * attached above their true parent rank is what that status records, as are
+ * auto-derived genera, which hang off whichever taxon's description named them.
+ */
+export function validateTaxonomy(root: Taxon, options: ValidationOptions = {}): ValidationReport {
+  const issues: ValidationIssue[] = []
+  const report = (
+    code: ValidationIssueCode,
+    severity: ValidationSeverity,
+    taxon: Taxon,
+    path: string[],
+    message: string,
+    suggestion?: string
+  ) => issues.push({ code, severity, message, taxonId: taxon.id, path, suggestion })
+
+  const visited = new Set<Taxon>()
+  const byId = new Map<string, Taxon>()
+  const byName = new Map<string, Taxon>()
+
+  const visit = (taxon: Taxon, path: string[], onPath: Set<Taxon>) => {
+    visited.add(taxon)
+
+    const sameId = byId.get(taxon.id)
+    if (sameId) {
+      report("duplicate-id", "error", taxon, path, `Id "${taxon.id}" is used by more than one taxon.`)
+    } else {
+      byId.set(taxon.id, taxon)
+    }
+
+    const sameName = byName.get(taxon.name)
+    if (sameName) {
+      report(
+        "duplicate-name",
+        "error",
+        taxon,
+        path,
+        `Name "${taxon.name}" (${taxon.rank}) is already used by a ${sameName.rank.toLowerCase()}.`
+      )
+    } else {
+      byName.set(taxon.name, taxon)
+    }
+
+    const suffixIssue = checkNameSuffix(taxon)
+    if (suffixIssue) {
+      report("name-suffix", "warning", taxon, path, suffixIssue.message, suffixIssue.suggestion)
+    }
+
+    for (const [key, child] of Object.entries(taxon.children)) {
+      const childPath = [...path, child.name]
+
+      if (onPath.has(child)) {
+        report("cycle", "error", child, childPath, `Linking "${child.name}" under "${taxon.name}" creates a cycle.`)
+        continue
+      }
+
+      if (key !== child.name) {
+        report("key-mismatch", "error", child, childPath, `Child key "${key}" does not match the taxon name "${child.name}".`)
+      }
+
+      if (child.parentId !== taxon.id) {
+        report(
+          "parent-mismatch",
+          "error",
+          child,
+          childPath,
+          `"${child.name}" is linked under "${taxon.name}" but its parent id is "${child.parentId ?? "(none)"}".`
+        )
+      }
+
+      if (compareRanks(child.rank, taxon.rank) <= 0) {
+        report(
+          "rank-order",
+          "error",
+          child,
+          childPath,
+          `${child.rank} "${child.name}" cannot be placed under ${taxon.rank.toLowerCase()} "${taxon.name}".`
+        )
+      } else {
+        const skipped = skippedPrincipalRanks(taxon.rank, child.rank)
+        const exempt = child.placement === PlacementStatus.IncertaeSedis || child.autoDerived
+        if (skipped.length > 0 && !exempt) {
+          report(
+            "rank-gap",
+            skipped.length > 1 ? "error" : "warning",
+            child,
+            childPath,
+            `${child.rank} "${child.name}" is placed directly under ${taxon.rank.toLowerCase()} "${taxon.name}", skipping ${skipped.join(", ")}.`
+          )
+        }
+      }
+
+      if (visited.has(child)) continue
+      onPath.add(child)
+      visit(child, childPath, onPath)
+      onPath.delete(child)
+    }
+  }
+
+  visit(root, [root.name], new Set([root]))
+
+  for (const frame of options.frames ?? []) {
+    if (!visited.has(frame)) {
+      report("unreachable", "error", frame, [frame.name], `${frame.rank} "${frame.name}" is defined but never linked into the tree.`)
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error")
+  const warnings = issues.filter((issue) => issue.severity === "warning")
+  return { valid: errors.length === 0, issues, errors, warnings }
+}
+
+/** Formats an issue as a single human-readable line. */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `${issue.severity.toUpperCase()} [${issue.code}] ${issue.path.join(" > ")}: ${issue.message}`
+}
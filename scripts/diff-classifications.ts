@@ -0,0 +1,29 @@
+/**
+ * Lists the differences between two bundled classification versions.
+ *
+ *   npm run diff:versions -- hibbett-2007 britannica-2025
+ *
+ * Without arguments, compares the oldest version with the current one.
+ */
+import { fungiClassifications, getClassification } from "@/data/fungi-taxonomy"
+import { diffClassifications } from "@/lib/taxonomy/diff"
+
+const [fromId, toId] = process.argv.slice(2)
+const from = fromId ? getClassification(fromId) : fungiClassifications[fungiClassifications.length - 1]
+const to = toId ? getClassification(toId) : fungiClassifications[0]
+
+if (!from || !to) {
+  const known = fungiClassifications.map((version) => version.id).join(", ")
+  console.error(`Unknown version "${!from ? fromId : toId}". Known versions: ${known}.`)
+  process.exit(1)
+}
+
+const diff = diffClassifications(from.root, to.root)
+
+console.log(`${from.label} → ${to.label}`)
+for (const change of diff.changes) {
+  console.log(`  ${change.type.padEnd(8)} ${change.message}`)
+}
+
+const summary = Object.entries(diff.counts).map(([type, count]) => `${count} ${type}`)
+console.log(`\n${summary.join(", ")}.`)
@@ -0,0 +1,33 @@
+/**
+ * Converts a Newick or NEXUS tree into a content file for `content/taxonomy/<version>/`.
+ *
+ *   npm run import:newick -- tree.nwk [--parent <id>] [--label-unnamed] > content/taxonomy/britannica-2025/10-new.yaml
+ *
+ * With --parent, the imported root is attached under that taxon; without it,
+ * the file describes a standalone tree. Warnings go to stderr.
+ */
+import fs from "fs"
+import { stringify } from "yaml"
+import { taxonToRecord } from "@/lib/taxonomy/content"
+import { newickToTaxonomy, parseNewick, parseNexus } from "@/lib/taxonomy/newick"
+
+const args = process.argv.slice(2)
+const file = args.find((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--parent")
+const parentIndex = args.indexOf("--parent")
+const parentId = parentIndex >= 0 ? args[parentIndex + 1] : undefined
+
+if (!file) {
+  console.error("Usage: npm run import:newick -- <file> [--parent <id>] [--label-unnamed]")
+  process.exit(1)
+}
+
+const text = fs.readFileSync(file, "utf8")
+const tree = /^\s*#nexus/i.test(text) ? parseNexus(text) : parseNewick(text)
+const { root, warnings } = newickToTaxonomy(tree, {
+  unnamed: args.includes("--label-unnamed") ? "label" : "collapse",
+})
+
+for (const warning of warnings) {
+  console.error(`warning: ${warning}`)
+}
+process.stdout.write(stringify(taxonToRecord(root, parentId), { lineWidth: 0 }))
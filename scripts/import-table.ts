@@ -0,0 +1,38 @@
+/**
+ * Converts a CSV or TSV table (as downloaded from /export/csv or /export/tsv)
+ * back into a content file for `content/taxonomy/<version>/`.
+ *
+ *   npm run import:table -- taxa.csv [--parent <id>] > content/taxonomy/britannica-2025/10-new.yaml
+ *
+ * The output replaces the content the table was exported from: a whole-tree
+ * export stands in for all of the version's files, not one more beside them.
+ * Files ending in .tsv or .tab are read as tab-separated. Rows that cannot be
+ * imported are listed on stderr with their row number, and nothing is written.
+ */
+import fs from "fs"
+import path from "path"
+import { stringify } from "yaml"
+import { taxonToRecord } from "@/lib/taxonomy/content"
+import { parseTaxonomyTable } from "@/lib/taxonomy/table"
+
+const args = process.argv.slice(2)
+const file = args.find((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--parent")
+const parentIndex = args.indexOf("--parent")
+const parentId = parentIndex >= 0 ? args[parentIndex + 1] : undefined
+
+if (!file) {
+  console.error("Usage: npm run import:table -- <file> [--parent <id>]")
+  process.exit(1)
+}
+
+const delimiter = [".tsv", ".tab"].includes(path.extname(file).toLowerCase()) ? "\t" : ","
+const { root, errors } = parseTaxonomyTable(fs.readFileSync(file, "utf8"), delimiter)
+
+for (const error of errors) {
+  console.error(`row ${error.row}${error.id ? ` (${error.id})` : ""}: ${error.message}`)
+}
+if (!root || errors.length > 0) {
+  console.error(`\n${errors.length} row${errors.length === 1 ? "" : "s"} could not be imported.`)
+  process.exit(1)
+}
+process.stdout.write(stringify(taxonToRecord(root, parentId), { lineWidth: 0 }))
@@ -0,0 +1,17 @@
+/**
+ * Lists the genera derived from "example genera" phrases in the bundled
+ * descriptions, followed by the candidates the parser was unsure about.
+ */
+import { fungiGenusExtractionReport } from "@/data/fungi-taxonomy"
+
+const { added, uncertain } = fungiGenusExtractionReport
+
+console.log(`Added ${added.length} genera:`)
+for (const candidate of added) {
+  console.log(`  ${candidate.parentName} > ${candidate.name}`)
+}
+
+console.log(`\n${uncertain.length} uncertain candidate(s):`)
+for (const candidate of uncertain) {
+  console.log(`  ${candidate.parentName} > ${candidate.name}: ${candidate.uncertainty} ("${candidate.phrase}")`)
+}
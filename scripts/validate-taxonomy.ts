@@ -0,0 +1,34 @@
+/**
+ * Validates every bundled classification version and exits non-zero when any
+ * has errors. Runs before `next build` via the `prebuild` script.
+ */
+import { fungiClassifications, fungiReferenceIssues } from "@/data/fungi-taxonomy"
+import { formatValidationIssue, validateTaxonomy } from "@/lib/taxonomy/validation"
+
+let totalErrors = fungiReferenceIssues.length
+
+for (const issue of fungiReferenceIssues) {
+  console.error(`ERROR [references] ${issue.file}: ${issue.message}`)
+}
+
+for (const version of fungiClassifications) {
+  const report = validateTaxonomy(version.root, { frames: version.frames })
+  console.log(`\n${version.label} (content/taxonomy/${version.id})`)
+
+  for (const issue of version.contentIssues) {
+    console.error(`ERROR [content] ${issue.file}: ${issue.message}`)
+  }
+
+  for (const issue of report.issues) {
+    const log = issue.severity === "error" ? console.error : console.warn
+    log(formatValidationIssue(issue))
+  }
+
+  const errorCount = report.errors.length + version.contentIssues.length
+  console.log(`Taxonomy validation: ${errorCount} error(s), ${report.warnings.length} warning(s).`)
+  totalErrors += errorCount
+}
+
+if (totalErrors > 0) {
+  process.exit(1)
+}